@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('activity')
+
+export default function ActivityLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="activity">{children}</DemoShell>
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect, Suspense, use } from 'react'
-import Link from 'next/link'
+import { useRenderTracker } from '../components/RenderTracker'
 
 // Mock Activity component (React 19.2 feature - this is a polyfill/demonstration)
 // In real React 19.2, this would be imported from 'react'
@@ -32,6 +32,7 @@ function Activity({ mode, children }: { mode: 'visible' | 'hidden'; children: Re
 function HeavyComponent({ id, color }: { id: string; color: string }) {
   const [count, setCount] = useState(0)
   const [mounted, setMounted] = useState(false)
+  const ref = useRenderTracker<HTMLDivElement>(id)
 
   useEffect(() => {
     console.log(`${id} mounted`)
@@ -42,7 +43,7 @@ function HeavyComponent({ id, color }: { id: string; color: string }) {
   }, [id])
 
   return (
-    <div className="card" style={{ padding: '1.5rem', borderLeft: `4px solid ${color}` }}>
+    <div ref={ref} className="card" style={{ padding: '1.5rem', borderLeft: `4px solid ${color}` }}>
       <h4>{id}</h4>
       <p>Status: {mounted ? '✅ Mounted' : '⏳ Mounting...'}</p>
       <p>Count: {count}</p>
@@ -155,11 +156,7 @@ export default function ActivityDemo() {
   const [preloadNext, setPreloadNext] = useState(false)
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        ← Back to Home
-      </Link>
-
+    <>
       <h1>
         <code>&lt;Activity /&gt;</code> Component Demo
       </h1>
@@ -498,6 +495,6 @@ function App() {
           throttled updates, and more granular priority control.
         </p>
       </div>
-    </div>
+    </>
   )
 }
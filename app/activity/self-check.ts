@@ -0,0 +1,20 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// Hidden Activity subtrees keep their state: a counter and a tab's input survive being hidden
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.waitForText('Status: ✅ Mounted')
+  await page.click('Increment')
+  await page.waitForText('Count: 1')
+  await page.click(/Hide Component/)
+  await page.waitForNoText('Count: 1')
+  await page.click(/Show Component/)
+  await page.waitForText('Count: 1')
+
+  await page.waitForText('Data loaded for Home')
+  await page.fill('input[placeholder="Type something..."]', 'kept')
+  await page.click('profile')
+  await page.waitForText('Data loaded for Profile')
+  await page.click('home')
+  const input = await page.waitForElement<HTMLInputElement>('input[placeholder="Type something..."]')
+  page.expect(input.value === 'kept', 'the Home tab input to keep its value')
+}
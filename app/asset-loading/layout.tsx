@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('asset-loading')
+
+export default function AssetLoadingLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="asset-loading">{children}</DemoShell>
+}
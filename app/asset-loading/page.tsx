@@ -1,7 +1,6 @@
 'use client'
 
 import { Suspense, useState } from 'react'
-import Link from 'next/link'
 
 function PreloadExample() {
   return (
@@ -130,11 +129,7 @@ function ScriptExample() {
 
 export default function AssetLoadingDemo() {
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>Asset Loading Demo</h1>
 
       <div className="demo-section">
@@ -260,6 +255,6 @@ preinit('/client-module.js', { as: 'script' })`}</code>
           <li><strong>Type Safe:</strong> Full TypeScript support</li>
         </ul>
       </div>
-    </div>
+    </>
   )
 }
@@ -0,0 +1,13 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// Rendering a <link rel="stylesheet"> from a component adds it to the document, and removing it cleans up.
+// The external script example is skipped so the check doesn't depend on a CDN.
+export const selfCheck: SelfCheckScenario = async (page) => {
+  const stylesheet = () => page.document.querySelector('link[rel="stylesheet"][href*="family=Roboto"]')
+
+  await page.click('Load Example Stylesheet')
+  await page.waitForText('This text uses the Roboto font loaded dynamically!')
+  page.expect(stylesheet(), 'the Roboto stylesheet link to be in the document')
+  await page.click('Unload Example Stylesheet')
+  await page.waitFor('the stylesheet link to be removed', () => !stylesheet())
+}
@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('async-transitions')
+
+export default function AsyncTransitionsLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="async-transitions">{children}</DemoShell>
+}
@@ -1,22 +1,19 @@
 'use client'
 
 import { useState, useTransition, Suspense } from 'react'
-import Link from 'next/link'
+import { Playground } from '../components/Playground'
+import { asyncSearchSnippet } from './snippets'
+import { mockRequest } from '../lib/mock-network'
 
 // Simulate async data fetching
 function fetchData(query: string): Promise<string[]> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      const results = [
-        `Result 1 for "${query}"`,
-        `Result 2 for "${query}"`,
-        `Result 3 for "${query}"`,
-        `Result 4 for "${query}"`,
-        `Result 5 for "${query}"`,
-      ]
-      resolve(results)
-    }, 1000)
-  })
+  return mockRequest('async-transitions/search', 1000, () => [
+    `Result 1 for "${query}"`,
+    `Result 2 for "${query}"`,
+    `Result 3 for "${query}"`,
+    `Result 4 for "${query}"`,
+    `Result 5 for "${query}"`,
+  ])
 }
 
 function SearchResults({ query }: { query: string }) {
@@ -103,11 +100,7 @@ export default function AsyncTransitionsDemo() {
   }
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>Async Transitions Demo</h1>
 
       <div className="demo-section">
@@ -204,6 +197,15 @@ function SearchComponent() {
         </pre>
       </div>
 
+      <div className="demo-section">
+        <h2>Try It Live</h2>
+        <p>
+          Edit a runnable version of the code and see the result immediately. The snippet is compiled in your browser
+          and rendered in a sandboxed frame, so nothing leaves this page.
+        </p>
+        <Playground title="useTransition playground" initialCode={asyncSearchSnippet} />
+      </div>
+
       <div className="demo-section">
         <h2>Code Example - Tab Switching</h2>
         <pre>
@@ -318,6 +320,6 @@ const deferredQuery = useDeferredValue(query)
 <SearchResults query={deferredQuery} />`}</code>
         </pre>
       </div>
-    </div>
+    </>
   )
 }
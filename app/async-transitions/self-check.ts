@@ -0,0 +1,11 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// The async search transition resolves, and the slow tab switch completes
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.fill('input[placeholder="Search..."]', 'hooks')
+  await page.waitForText('Result 5 for "hooks"')
+  await page.waitForNoText('🔄 Searching...')
+  await page.click('profile')
+  await page.waitForText('Content for profile')
+  await page.waitForNoText('⏳ Loading tab content...')
+}
@@ -0,0 +1,43 @@
+// Runnable starting point for the live playground on this page
+export const asyncSearchSnippet = `import { useState, useTransition } from 'react'
+
+const frameworks = ['React', 'React Native', 'Redux', 'Remix', 'Next.js', 'Vite', 'Vitest']
+
+// Pretend API call: try changing the delay
+function search(query: string): Promise<string[]> {
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      resolve(frameworks.filter((f) => f.toLowerCase().includes(query.toLowerCase())))
+    }, 800)
+  })
+}
+
+export default function App() {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<string[]>(frameworks)
+  const [isPending, startTransition] = useTransition()
+
+  function handleChange(value: string) {
+    // Urgent update: the input stays responsive
+    setQuery(value)
+
+    // Try calling search() without startTransition and watch isPending
+    startTransition(async () => {
+      const found = await search(value)
+      startTransition(() => setResults(found))
+    })
+  }
+
+  return (
+    <div>
+      <input value={query} onChange={(e) => handleChange(e.target.value)} placeholder="Search..." />
+      <p>{isPending ? 'Searching...' : results.length + ' results'}</p>
+      <ul style={{ opacity: isPending ? 0.5 : 1, marginLeft: '1.5rem' }}>
+        {results.map((r) => (
+          <li key={r}>{r}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+`
@@ -0,0 +1,31 @@
+'use client'
+
+import { useActionState } from 'react'
+import { renameDocument, type RenameState } from './actions'
+
+const initialState: RenameState = { status: 'idle' }
+
+// Binds the document's ID on the client. React sends bound arguments ahead of the
+// form's own arguments, in plain text: the request shows ["doc-1", prevState, FormData].
+export function RenameForm({ documentId, title }: { documentId: string; title: string }) {
+  const renameThisDocument = renameDocument.bind(null, documentId)
+  const [state, formAction, isPending] = useActionState(renameThisDocument, initialState)
+
+  return (
+    <form action={formAction} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+      <input
+        id={`title-${documentId}`}
+        name="title"
+        defaultValue={title}
+        aria-label={`New title for ${documentId}`}
+        maxLength={80}
+        style={{ flex: '1 1 12rem' }}
+      />
+      <button type="submit" disabled={isPending}>
+        {isPending ? 'Renaming...' : 'Rename'}
+      </button>
+      {state.status === 'error' && <span style={{ color: 'var(--error)' }}>{state.message}</span>}
+      {state.status === 'success' && <span style={{ color: 'var(--success)' }}>{state.message}</span>}
+    </form>
+  )
+}
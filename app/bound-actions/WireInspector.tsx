@@ -0,0 +1,137 @@
+'use client'
+
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import {
+  clearWireRequests,
+  getServerWireRequests,
+  getWireRequests,
+  installWireCapture,
+  replayWireRequest,
+  subscribeWire,
+  type WireEntry,
+  type WireRequest,
+  type WireResponse,
+} from './wire'
+
+const FORGED_ID = 'doc-3'
+const documentId = /doc-\d+/g
+// Encrypted closures travel as one long base64 string
+const ciphertext = /"([A-Za-z0-9+/]{40,}={0,2})"/
+
+const mapText = (entries: WireEntry[], edit: (value: string) => string) =>
+  entries.map((entry) => (typeof entry.value === 'string' ? { ...entry, value: edit(entry.value) } : entry))
+
+// What a client with devtools can do to a plain bound argument
+const forgeId = (entries: WireEntry[]) => mapText(entries, (value) => value.replace(documentId, FORGED_ID))
+
+// Flips one character in the middle of the ciphertext
+function tamperCiphertext(entries: WireEntry[]) {
+  return mapText(entries, (value) =>
+    value.replace(ciphertext, (_, encrypted: string) => {
+      const i = Math.floor(encrypted.length / 2)
+      return `"${encrypted.slice(0, i)}${encrypted[i] === 'A' ? 'B' : 'A'}${encrypted.slice(i + 1)}"`
+    })
+  )
+}
+
+function CapturedRequest({ request }: { request: WireRequest }) {
+  const [entries, setEntries] = useState(request.entries)
+  const [response, setResponse] = useState<WireResponse | null>(null)
+  const [sending, setSending] = useState(false)
+
+  const text = request.entries.map((entry) => (typeof entry.value === 'string' ? entry.value : '')).join('\n')
+  const isEncrypted = ciphertext.test(text)
+  const isEdited = entries.some((entry, i) => entry.value !== request.entries[i].value)
+
+  const send = async () => {
+    setSending(true)
+    try {
+      setResponse(await replayWireRequest(request, entries))
+    } catch (error) {
+      setResponse({ status: 0, text: (error as Error).message })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', flexWrap: 'wrap' }}>
+        <strong>Request #{request.id}</strong>
+        <span className="badge">{isEncrypted ? 'encrypted closure' : 'plain bound arguments'}</span>
+      </div>
+      <p style={{ fontFamily: 'monospace', fontSize: '0.85rem', margin: '0.5rem 0', wordBreak: 'break-all' }}>
+        POST {window.location.pathname} · Next-Action: {request.headers['next-action']}
+      </p>
+
+      {entries.map((entry, i) => (
+        <label key={i} style={{ display: 'block', marginBottom: '0.5rem' }}>
+          <span style={{ fontSize: '0.85rem', color: '#666' }}>
+            {request.bodyType === 'form-data' ? `FormData entry "${entry.name}"` : 'Request body'}
+            {entry.name === '0' && ' (the argument list; bound arguments come first)'}
+          </span>
+          {typeof entry.value === 'string' ? (
+            <textarea
+              value={entry.value}
+              onChange={(e) =>
+                setEntries(entries.map((item, j) => (j === i ? { ...item, value: e.target.value } : item)))
+              }
+              rows={Math.min(6, Math.ceil(entry.value.length / 70) + 1)}
+              style={{ width: '100%', fontFamily: 'monospace', fontSize: '0.8rem' }}
+            />
+          ) : (
+            <div style={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>
+              File {entry.value.name} ({entry.value.size} bytes)
+            </div>
+          )}
+        </label>
+      ))}
+
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        {isEncrypted ? (
+          <button onClick={() => setEntries(tamperCiphertext(entries))}>Tamper with the ciphertext</button>
+        ) : (
+          <button onClick={() => setEntries(forgeId(entries))}>Forge: use {FORGED_ID}</button>
+        )}
+        <button onClick={() => setEntries(request.entries)} disabled={!isEdited}>
+          Undo edits
+        </button>
+        <button onClick={send} disabled={sending}>
+          {sending ? 'Sending...' : isEdited ? 'Send forged request' : 'Replay request'}
+        </button>
+      </div>
+
+      {response && (
+        <div style={{ marginTop: '0.75rem' }}>
+          <strong>Response: HTTP {response.status || 'failed'}</strong>
+          <pre style={{ maxHeight: '200px', overflow: 'auto', fontSize: '0.8rem', whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
+            {response.text.length > 1500 ? `${response.text.slice(0, 1500)}…` : response.text}
+          </pre>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Lists the server action requests sent from this page and lets you edit and resend them
+export function WireInspector() {
+  const requests = useSyncExternalStore(subscribeWire, getWireRequests, getServerWireRequests)
+
+  useEffect(() => installWireCapture(), [])
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+        <span style={{ color: '#666' }}>
+          {requests.length === 0 ? 'Rename or archive a document to capture its request.' : `${requests.length} captured`}
+        </span>
+        <button onClick={clearWireRequests} disabled={requests.length === 0}>
+          Clear requests
+        </button>
+      </div>
+      {requests.map((request) => (
+        <CapturedRequest key={request.id} request={request} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { instrumentAction } from '../lib/action-log'
+import { CURRENT_USER_ID, authorizeDocument, updateDocument } from './documents'
+
+export type RenameState = {
+  status: 'idle' | 'success' | 'error'
+  message?: string
+}
+
+// Bound on the client with renameDocument.bind(null, documentId). The ID is sent
+// in plain text with the form data, so the action treats it as untrusted input.
+export const renameDocument = instrumentAction(
+  'renameDocument',
+  async (documentId: string, prevState: RenameState, formData: FormData): Promise<RenameState> => {
+    const document = await authorizeDocument(documentId)
+    if (!document) {
+      console.warn(`[bound-actions] ${CURRENT_USER_ID} may not rename ${JSON.stringify(documentId)}`)
+      return { status: 'error', message: 'Document not found' }
+    }
+
+    const title = String(formData.get('title') ?? '').trim()
+    if (!title || title.length > 80) {
+      return { status: 'error', message: 'Title must be 1 to 80 characters' }
+    }
+
+    await updateDocument(document.id, { title })
+    revalidatePath('/bound-actions')
+    return { status: 'success', message: `Renamed to "${title}"` }
+  }
+)
@@ -0,0 +1,39 @@
+import { createFileStore } from '../lib/file-store'
+
+export type Document = {
+  id: string
+  title: string
+  ownerId: string
+  archived: boolean
+}
+
+// Stand-in for the signed-in user a real app would read from its session
+export const CURRENT_USER_ID = 'alice'
+
+const seed: Document[] = [
+  { id: 'doc-1', title: 'Quarterly report', ownerId: 'alice', archived: false },
+  { id: 'doc-2', title: 'Team offsite plan', ownerId: 'alice', archived: false },
+  // Not shown on the page; the target of the forged requests
+  { id: 'doc-3', title: 'Salary review', ownerId: 'bob', archived: false },
+]
+
+const store = createFileStore<Document[]>('bound-actions-documents', seed)
+
+export async function getOwnDocuments(): Promise<Document[]> {
+  return (await store.read()).filter((document) => document.ownerId === CURRENT_USER_ID)
+}
+
+// Every action checks the ID it receives: bound arguments come back from the
+// client like any other request data. Returns null both for IDs that don't
+// exist and for other users' documents, so IDs can't be probed.
+export async function authorizeDocument(id: unknown): Promise<Document | null> {
+  if (typeof id !== 'string' || !/^doc-\d+$/.test(id)) return null
+  const document = (await store.read()).find((document) => document.id === id)
+  return document?.ownerId === CURRENT_USER_ID ? document : null
+}
+
+export async function updateDocument(id: string, changes: Partial<Pick<Document, 'title' | 'archived'>>) {
+  await store.update((documents) =>
+    documents.map((document) => (document.id === id ? { ...document, ...changes } : document))
+  )
+}
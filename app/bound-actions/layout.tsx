@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('bound-actions')
+
+export default function BoundActionsLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="bound-actions">{children}</DemoShell>
+}
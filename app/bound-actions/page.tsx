@@ -0,0 +1,139 @@
+import { revalidatePath } from 'next/cache'
+import { connection } from 'next/server'
+import { SourceCode } from '../components/SourceCode'
+import { CURRENT_USER_ID, authorizeDocument, getOwnDocuments, updateDocument, type Document } from './documents'
+import { RenameForm } from './RenameForm'
+import { WireInspector } from './WireInspector'
+import actionSnippets from './actions.ts?names=renameDocument&source'
+import documentSnippets from './documents.ts?names=authorizeDocument&source'
+import formSnippets from './RenameForm.tsx?names=RenameForm&source'
+import pageSnippets from './page.tsx?names=ArchiveButton&source'
+
+// An inline server action in a Server Component. `id` and `archived` are closed
+// over: Next.js encrypts them into the page and decrypts them when the action
+// runs, so the client can neither read nor change them.
+function ArchiveButton({ document }: { document: Document }) {
+  const { id, archived } = document
+
+  async function toggleArchived() {
+    'use server'
+    // Still authorized: encryption protects the value, not who is calling
+    if (!(await authorizeDocument(id))) throw new Error('Document not found')
+    await updateDocument(id, { archived: !archived })
+    revalidatePath('/bound-actions')
+  }
+
+  return (
+    <form action={toggleArchived}>
+      <button type="submit">{archived ? 'Unarchive' : 'Archive'}</button>
+    </form>
+  )
+}
+
+export default async function BoundActionsDemo() {
+  await connection()
+  const documents = await getOwnDocuments()
+
+  return (
+    <>
+      <h1>Bound Server Actions Demo</h1>
+
+      <div className="demo-section">
+        <h2>Passing IDs to Server Actions</h2>
+        <p>
+          A form usually acts on a record: rename <em>this</em> document. There are two ways to give the action the
+          record&apos;s ID without a hidden input:
+        </p>
+        <ul style={{ marginLeft: '2rem', lineHeight: '2' }}>
+          <li>
+            <strong>
+              <code>action.bind(null, id)</code>
+            </strong>
+            : the bound arguments are sent in plain text ahead of the form&apos;s own arguments
+          </li>
+          <li>
+            <strong>A closure:</strong> an inline <code>&apos;use server&apos;</code> function in a Server Component that
+            uses a variable from the component. Next.js encrypts the closed-over values with a per-build key (set{' '}
+            <code>NEXT_SERVER_ACTIONS_ENCRYPTION_KEY</code> to share it between servers)
+          </li>
+        </ul>
+        <p style={{ marginTop: '0.5rem' }}>
+          Either way, a server action is a public endpoint. Anyone can call it with any arguments, so it has to check
+          that the caller may touch the record.
+        </p>
+      </div>
+
+      <div className="demo-section">
+        <h2>Interactive Demo</h2>
+        <p>
+          Signed in as <strong>{CURRENT_USER_ID}</strong>. Renaming binds the ID on the client; archiving uses an
+          encrypted closure. <code>doc-3</code> exists too, but belongs to bob.
+        </p>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', maxWidth: '700px', marginTop: '1rem' }}>
+          {documents.map((document) => (
+            <div key={document.id} className="card" style={{ opacity: document.archived ? 0.6 : 1 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+                <strong>
+                  {document.title} <code>{document.id}</code>
+                </strong>
+                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                  {document.archived && <span className="badge">archived</span>}
+                  <ArchiveButton document={document} />
+                </div>
+              </div>
+              <div style={{ marginTop: '0.5rem' }}>
+                <RenameForm documentId={document.id} title={document.title} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="demo-section">
+        <h2>On the Wire</h2>
+        <p>
+          Every request the page sends to a server action is captured below: the action&apos;s ID in the{' '}
+          <code>Next-Action</code> header and the serialized arguments. A rename shows <code>&quot;doc-1&quot;</code> in
+          the clear; an archive shows a base64 ciphertext instead of the ID.
+        </p>
+        <p style={{ marginTop: '0.5rem' }}>
+          Edit a request and send it again, as someone with devtools could. Forging the plain ID reaches the action,
+          whose authorization check answers <code>Document not found</code> (the same answer as for an ID that
+          doesn&apos;t exist). A tampered ciphertext fails to decrypt, so Next.js rejects the request before the action
+          runs.
+        </p>
+        <div style={{ marginTop: '1rem' }}>
+          <WireInspector />
+        </div>
+      </div>
+
+      <div className="demo-section">
+        <h2>Source of This Demo</h2>
+        <SourceCode snippet={formSnippets.RenameForm} />
+        <SourceCode snippet={actionSnippets.renameDocument} />
+        <SourceCode snippet={pageSnippets.ArchiveButton} />
+        <SourceCode snippet={documentSnippets.authorizeDocument} />
+      </div>
+
+      <div className="demo-section">
+        <h2>Best Practices</h2>
+        <ul style={{ marginLeft: '2rem', lineHeight: '2' }}>
+          <li>
+            <strong>Authorize inside the action:</strong> check the session against the record on every call, bound or
+            not
+          </li>
+          <li>
+            <strong>Validate the type:</strong> arguments are deserialized from the request, not type-checked
+          </li>
+          <li>
+            <strong>Don&apos;t rely on encryption for access control:</strong> it keeps values secret and unchanged, but
+            the encrypted form can still be replayed by anyone who has the page
+          </li>
+          <li>
+            <strong>Close over IDs, not records:</strong> everything a closure captures is serialized into the page
+          </li>
+        </ul>
+      </div>
+    </>
+  )
+}
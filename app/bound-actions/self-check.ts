@@ -0,0 +1,27 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// Renames a document through a bound action, then forges the captured request for
+// someone else's document and tampers with an archive request's encrypted closure
+export const selfCheck: SelfCheckScenario = async (page) => {
+  const title = `Quarterly report ${Date.now()}`
+
+  await page.fill('#title-doc-1', title)
+  await page.click('Rename')
+  await page.waitForText(`Renamed to "${title}"`)
+  await page.waitForText('plain bound arguments')
+
+  await page.click('Forge: use doc-3')
+  await page.click('Send forged request')
+  await page.waitForText(/Document not found/)
+
+  await page.click('Clear requests')
+  await page.click('Archive')
+  await page.waitForText('encrypted closure')
+  await page.waitForText('Unarchive')
+  await page.click('Tamper with the ciphertext')
+  await page.click('Send forged request')
+  await page.waitForText(/HTTP [45]\d\d/)
+
+  await page.click('Unarchive')
+  await page.waitForNoText('Unarchive')
+}
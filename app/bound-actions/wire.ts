@@ -0,0 +1,98 @@
+// Captures the requests Next.js sends when a server action is called, so the
+// demo can show them and replay edited copies. Next.js calls actions with
+// fetch() and a `Next-Action` header holding the action's ID.
+
+export type WireEntry = { name: string; value: string | File }
+
+export type WireRequest = {
+  id: number
+  url: string
+  headers: Record<string, string>
+  // FormData bodies keep their entries; a plain string body is one entry named "body"
+  bodyType: 'form-data' | 'string'
+  entries: WireEntry[]
+}
+
+export type WireResponse = { status: number; text: string }
+
+let requests: WireRequest[] = []
+let nextId = 1
+let originalFetch: typeof fetch | null = null
+const listeners = new Set<() => void>()
+
+function notify() {
+  queueMicrotask(() => listeners.forEach((listener) => listener()))
+}
+
+export function subscribeWire(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getWireRequests(): WireRequest[] {
+  return requests
+}
+
+const noRequests: WireRequest[] = []
+export const getServerWireRequests = () => noRequests
+
+export function clearWireRequests() {
+  requests = []
+  notify()
+}
+
+function capture(input: RequestInfo | URL, init?: RequestInit) {
+  const headers = Object.fromEntries(new Headers(init?.headers).entries())
+  if (!headers['next-action']) return
+
+  const body = init?.body
+  const request: WireRequest = {
+    id: nextId++,
+    url: typeof input === 'string' ? input : input instanceof URL ? input.href : input.url,
+    headers,
+    ...(body instanceof FormData
+      ? { bodyType: 'form-data', entries: Array.from(body.entries(), ([name, value]) => ({ name, value })) }
+      : { bodyType: 'string', entries: [{ name: 'body', value: String(body ?? '') }] }),
+  }
+  requests = [request, ...requests].slice(0, 10)
+  notify()
+}
+
+// Wraps window.fetch while the inspector is mounted; returns the uninstaller
+export function installWireCapture() {
+  if (originalFetch) return () => {}
+
+  const original = window.fetch
+  originalFetch = original
+  window.fetch = (input, init) => {
+    capture(input, init)
+    return original(input, init)
+  }
+
+  return () => {
+    window.fetch = original
+    originalFetch = null
+  }
+}
+
+// Sends an edited copy of a captured request, the way a client forging the payload would
+export async function replayWireRequest(request: WireRequest, entries: WireEntry[]): Promise<WireResponse> {
+  let body: BodyInit
+  if (request.bodyType === 'form-data') {
+    const formData = new FormData()
+    entries.forEach(({ name, value }) => formData.append(name, value))
+    body = formData
+  } else {
+    body = String(entries[0].value)
+  }
+
+  // Skip the capture: a replay is not a new call from the app
+  const response = await (originalFetch ?? window.fetch)(request.url || window.location.href, {
+    method: 'POST',
+    headers: request.headers,
+    body,
+  })
+  return { status: response.status, text: await response.text() }
+}
@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('capture-owner-stack')
+
+export default function CaptureOwnerStackLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="capture-owner-stack">{children}</DemoShell>
+}
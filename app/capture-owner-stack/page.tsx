@@ -2,7 +2,6 @@
 
 import { captureOwnerStack } from 'react';
 import { useState, useEffect } from 'react';
-import Link from 'next/link';
 
 // Deeply nested component that captures its owner stack
 function DeepComponent() {
@@ -133,11 +132,7 @@ export default function CaptureOwnerStackDemo() {
   }, []);
   
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>captureOwnerStack() Demo</h1>
 
       <div className="demo-section">
@@ -218,7 +213,7 @@ export default function CaptureOwnerStackDemo() {
           <li>Helps understand complex component compositions</li>
         </ul>
       </div>
-    </div>
+    </>
   );
 }
 
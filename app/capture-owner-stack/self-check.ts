@@ -0,0 +1,15 @@
+import type { SelfCheckScenario } from '../lib/self-check';
+
+// Owner stacks are captured in effects and event handlers (development builds only)
+export const selfCheck: SelfCheckScenario = async (page) => {
+  if (process.env.NODE_ENV === 'production') {
+    page.skip('captureOwnerStack is only available in development builds');
+  }
+
+  await page.waitForText('DeepComponent Stack:');
+  await page.waitForNoText('Loading...');
+  await page.click('Capture Stack on Click');
+  await page.waitForText('Stack captured in event handler:');
+  await page.click('Show Child Component');
+  await page.waitForText('ConditionalComponent Stack:');
+};
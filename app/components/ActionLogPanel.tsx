@@ -0,0 +1,133 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ActionInvocation } from '../lib/action-log'
+
+const outcomeColors: Record<ActionInvocation['outcome'], string> = {
+  success: 'var(--success)',
+  returned_error: 'var(--warning)',
+  thrown: 'var(--error)',
+}
+
+function Invocation({ invocation }: { invocation: ActionInvocation }) {
+  const total = invocation.fields.reduce((sum, field) => sum + field.bytes, 0)
+
+  return (
+    <li style={{ borderTop: '1px solid var(--border)', padding: '6px 0' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+        <strong style={{ fontFamily: 'monospace' }}>{invocation.action}</strong>
+        <span style={{ color: outcomeColors[invocation.outcome], fontWeight: 600 }}>{invocation.outcome}</span>
+      </div>
+      <div style={{ color: '#666' }}>
+        {new Date(invocation.startedAt).toLocaleTimeString('en-US')} · {invocation.durationMs}ms · {total} bytes
+      </div>
+      {invocation.fields.length > 0 && (
+        <div style={{ fontFamily: 'monospace', color: '#444' }}>
+          {invocation.fields.map((field, i) => (
+            <span key={i} style={{ marginRight: '0.75rem' }}>
+              {field.name}
+              {field.kind === 'file' && ' (file)'}: {field.bytes} B
+            </span>
+          ))}
+        </div>
+      )}
+      {invocation.error && <div style={{ color: 'var(--error)' }}>{invocation.error}</div>}
+    </li>
+  )
+}
+
+// Live list of server action invocations recorded by instrumentAction() (app/lib/action-log).
+// Development only: the stream at /dev/action-log is disabled in production builds.
+export function ActionLogPanel() {
+  const [open, setOpen] = useState(false)
+  const [connected, setConnected] = useState(false)
+  const [invocations, setInvocations] = useState<ActionInvocation[]>([])
+
+  useEffect(() => {
+    const source = new EventSource('/dev/action-log')
+    source.onopen = () => setConnected(true)
+    source.onerror = () => setConnected(false)
+    source.onmessage = (event) => {
+      const invocation: ActionInvocation = JSON.parse(event.data)
+      // The server replays its recent invocations after a reconnect
+      setInvocations((current) =>
+        current.some((item) => item.id === invocation.id) ? current : [invocation, ...current].slice(0, 100)
+      )
+    }
+    return () => source.close()
+  }, [])
+
+  const failures = invocations.filter((invocation) => invocation.outcome !== 'success').length
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        bottom: '56px',
+        right: '10px',
+        zIndex: 9999,
+        fontSize: '12px',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+      }}
+    >
+      {open ? (
+        <div
+          style={{
+            background: 'white',
+            border: '1px solid var(--border)',
+            borderRadius: '10px',
+            boxShadow: '0 4px 16px rgba(0, 0, 0, 0.2)',
+            padding: '12px 14px',
+            width: '380px',
+            maxHeight: '60vh',
+            overflowY: 'auto',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <strong style={{ fontSize: '14px' }}>⚡ Server Actions</strong>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              <button
+                onClick={() => setInvocations([])}
+                disabled={invocations.length === 0}
+                style={{ padding: '0.25rem 0.6rem', fontSize: '12px' }}
+              >
+                Clear
+              </button>
+              <button onClick={() => setOpen(false)} style={{ padding: '0.25rem 0.6rem', fontSize: '12px' }}>
+                Close
+              </button>
+            </div>
+          </div>
+
+          <p style={{ color: '#666', margin: '0 0 6px' }}>
+            {connected ? 'Live from the server.' : 'Connecting to the server...'} Also written to{' '}
+            <code>.data/action-log.jsonl</code>.
+          </p>
+
+          {invocations.length === 0 ? (
+            <p style={{ color: '#666', margin: 0 }}>Submit a form that uses a server action to see it here.</p>
+          ) : (
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+              {invocations.map((invocation) => (
+                <Invocation key={invocation.id} invocation={invocation} />
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <button
+          onClick={() => setOpen(true)}
+          style={{
+            padding: '8px 12px',
+            fontSize: '12px',
+            background: failures > 0 ? 'var(--warning)' : 'rgba(0, 0, 0, 0.8)',
+            boxShadow: '0 4px 16px rgba(0, 0, 0, 0.3)',
+          }}
+        >
+          ⚡ Actions: {invocations.length}
+          {failures > 0 && ` (${failures} failed)`}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+'use client'
+
+import { usePathname } from 'next/navigation'
+
+// Pages that render without the floating panels: the playground preview iframe, and the
+// no-JavaScript form, where panels that need JavaScript would only be dead buttons
+const bareRoutes = ['/playground', '/server-actions/no-js']
+
+// Floating panels rendered on every page, except the bare routes above
+export function AppChrome({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname()
+  if (bareRoutes.some((route) => pathname.startsWith(route))) return null
+  return children
+}
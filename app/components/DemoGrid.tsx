@@ -0,0 +1,178 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { demos, getAllTags, type Demo } from '../lib/demos'
+
+const allTags = getAllTags()
+
+function matchesQuery(demo: Demo, query: string) {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return true
+
+  return [demo.title, demo.description, ...demo.tags].some((text) =>
+    text.toLowerCase().includes(needle)
+  )
+}
+
+type DemoGridViewProps = {
+  activeTags: string[]
+  query: string
+  // The search box's text, when it runs ahead of `query`
+  searchText?: string
+  // Left out when rendered on the server, where the list can't be filtered yet
+  onQueryChange?: (query: string) => void
+  onToggleTag?: (tag: string) => void
+  onClear?: () => void
+}
+
+function DemoGridView({
+  activeTags,
+  query,
+  searchText = query,
+  onQueryChange,
+  onToggleTag,
+  onClear,
+}: DemoGridViewProps) {
+  const interactive = onToggleTag !== undefined
+  const hasFilters = activeTags.length > 0 || query.trim() !== ''
+  const visibleDemos = demos.filter(
+    (demo) => activeTags.every((tag) => demo.tags.includes(tag)) && matchesQuery(demo, query)
+  )
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap', marginTop: '1rem' }}>
+        <input
+          type="search"
+          value={searchText}
+          onChange={(e) => onQueryChange?.(e.target.value)}
+          disabled={!interactive}
+          placeholder="Search demos by title, description or tag..."
+          aria-label="Search demos"
+          style={{ flex: 1, minWidth: '260px' }}
+        />
+        <span style={{ color: '#666' }}>
+          {visibleDemos.length} of {demos.length} demos
+        </span>
+        {hasFilters && (
+          <button onClick={onClear} className="badge badge-outline" style={{ margin: 0 }}>
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div style={{ marginTop: '1rem' }} aria-label="Filter by tag">
+        {allTags.map((tag) => (
+          <button
+            key={tag}
+            onClick={() => onToggleTag?.(tag)}
+            disabled={!interactive}
+            className={activeTags.includes(tag) ? 'badge badge-active' : 'badge badge-outline'}
+            aria-pressed={activeTags.includes(tag)}
+          >
+            {tag}
+          </button>
+        ))}
+      </div>
+
+      {visibleDemos.length === 0 ? (
+        <div className="result" style={{ margin: '2rem 0' }}>
+          <p>No demos match the current filters.</p>
+          <button onClick={onClear}>Clear filters</button>
+        </div>
+      ) : (
+        <div className="grid">
+          {visibleDemos.map((demo) => (
+            <div className="card" key={demo.href}>
+              <Link href={demo.href}>
+                <h3 style={{ marginBottom: '0.5rem' }}>{demo.title}</h3>
+                <p style={{ color: '#666', marginBottom: '1rem' }}>{demo.description}</p>
+              </Link>
+              <div>
+                {demo.tags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => onToggleTag?.(tag)}
+                    disabled={!interactive}
+                    className={activeTags.includes(tag) ? 'badge badge-active' : 'badge'}
+                    title={`Show all ${tag} demos`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Rendered on the server while the search params are unknown, so the prerendered
+// page (and a browser without JavaScript) gets every demo link
+export function DemoGridFallback() {
+  return <DemoGridView activeTags={[]} query="" />
+}
+
+// The filters live in the URL: ?tag=Suspense&tag=Hooks&q=transition
+export function DemoGrid() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const activeTags = searchParams.getAll('tag')
+  const query = searchParams.get('q') ?? ''
+  // What's typed in the search box. URL updates land in a transition, which a
+  // controlled input can't wait for, so the box keeps its own text while the
+  // list follows the URL.
+  const [draft, setDraft] = useState(query)
+
+  // Back and forward change the URL without typing: show its query again
+  useEffect(() => {
+    const onPopState = () => setDraft(new URLSearchParams(window.location.search).get('q') ?? '')
+    window.addEventListener('popstate', onPopState)
+    return () => window.removeEventListener('popstate', onPopState)
+  }, [])
+
+  // Tag changes and clearing push, so Back undoes them one at a time. Typing
+  // replaces: each keystroke would otherwise add its own history entry.
+  const updateUrl = (tags: string[], q: string, history: 'push' | 'replace') => {
+    const params = new URLSearchParams()
+    tags.forEach((tag) => params.append('tag', tag))
+    if (q.trim()) params.set('q', q.trim())
+
+    const search = params.toString()
+    router[history](search ? `${pathname}?${search}` : pathname, { scroll: false })
+  }
+
+  const toggleTag = (tag: string) => {
+    const tags = activeTags.includes(tag)
+      ? activeTags.filter((t) => t !== tag)
+      : [...activeTags, tag]
+    updateUrl(tags, draft, 'push')
+  }
+
+  const changeQuery = (value: string) => {
+    setDraft(value)
+    updateUrl(activeTags, value, 'replace')
+  }
+
+  const clearFilters = () => {
+    setDraft('')
+    updateUrl([], '', 'push')
+  }
+
+  return (
+    <DemoGridView
+      activeTags={activeTags}
+      query={query}
+      searchText={draft}
+      onQueryChange={changeQuery}
+      onToggleTag={toggleTag}
+      onClear={clearFilters}
+    />
+  )
+}
@@ -0,0 +1,13 @@
+'use client'
+
+import { Profiler } from 'react'
+import { recordCommit } from '../lib/profiler-recorder'
+
+// Wraps a demo so its commits reach the profiler recorder
+export function DemoProfiler({ id, children }: { id: string; children: React.ReactNode }) {
+  return (
+    <Profiler id={id} onRender={recordCommit}>
+      {children}
+    </Profiler>
+  )
+}
@@ -0,0 +1,78 @@
+import Link from 'next/link'
+import { DemoProfiler } from './DemoProfiler'
+import { ProfilerPanel } from './ProfilerPanel'
+import { getAdjacentDemos, getDemo, getRelatedDemos, type DemoId } from '../lib/demos'
+
+const stabilityLabels = {
+  stable: null,
+  canary: 'Canary',
+  experimental: 'Experimental',
+}
+
+// Shared frame for every demo page: breadcrumbs, registry info and previous/next links
+export function DemoShell({ id, children }: { id: DemoId; children: React.ReactNode }) {
+  const demo = getDemo(id)
+  const { previous, next } = getAdjacentDemos(id)
+  const related = getRelatedDemos(demo)
+  const stability = stabilityLabels[demo.stability]
+
+  return (
+    <div className="container">
+      <div className="demo-topbar">
+        <nav aria-label="Breadcrumb" className="breadcrumbs">
+          <Link href="/">Home</Link>
+          <span aria-hidden="true">/</span>
+          <span aria-current="page">{demo.title}</span>
+        </nav>
+        <nav aria-label="Demo navigation" className="demo-topbar-pager">
+          {previous && <Link href={previous.href} title={previous.title}>← Prev</Link>}
+          {next && <Link href={next.href} title={next.title}>Next →</Link>}
+        </nav>
+      </div>
+
+      <div style={{ marginBottom: '1.5rem' }}>
+        <span className="badge badge-outline">React {demo.minReactVersion}+</span>
+        {stability && <span className="badge badge-active">{stability}</span>}
+        {demo.tags.map((tag) => (
+          <Link key={tag} href={`/?tag=${encodeURIComponent(tag)}`} className="badge" title={`All ${tag} demos`}>
+            {tag}
+          </Link>
+        ))}
+      </div>
+
+      <DemoProfiler id={demo.id}>{children}</DemoProfiler>
+      <ProfilerPanel demoId={demo.id} />
+
+      {related.length > 0 && (
+        <p style={{ marginTop: '3rem', color: '#666' }}>
+          <strong>Related:</strong>{' '}
+          {related.map((r, i) => (
+            <span key={r.id}>
+              {i > 0 && ', '}
+              <Link href={r.href}>{r.title}</Link>
+            </span>
+          ))}
+        </p>
+      )}
+
+      <nav aria-label="Previous and next demo" className="demo-pager">
+        {previous ? (
+          <Link href={previous.href} className="card">
+            <small>← Previous</small>
+            <strong>{previous.title}</strong>
+          </Link>
+        ) : (
+          <span />
+        )}
+        {next ? (
+          <Link href={next.href} className="card" style={{ textAlign: 'right' }}>
+            <small>Next →</small>
+            <strong>{next.title}</strong>
+          </Link>
+        ) : (
+          <span />
+        )}
+      </nav>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+'use client'
+
+import { useState, useSyncExternalStore } from 'react'
+import {
+  getEndpoints,
+  getMockNetworkConfig,
+  getServerMockNetworkConfig,
+  setMockNetworkConfig,
+  subscribeMockNetwork,
+  type Endpoint,
+  type MockNetworkConfig,
+  type NetworkSettings,
+} from '../lib/mock-network'
+
+const noEndpoints: Endpoint[] = []
+
+const presets: { label: string; global: NetworkSettings }[] = [
+  { label: 'Default', global: {} },
+  { label: 'Instant', global: { latency: 0 } },
+  { label: 'Slow', global: { latency: 4000, jitter: 1000 } },
+  { label: 'Flaky', global: { errorRate: 0.3 } },
+  { label: 'All failing', global: { errorRate: 1 } },
+]
+
+function describe(settings: NetworkSettings) {
+  const parts = []
+  if (settings.latency !== undefined) parts.push(`${settings.latency}ms`)
+  if (settings.jitter) parts.push(`±${settings.jitter}ms`)
+  if (settings.errorRate) parts.push(`${Math.round(settings.errorRate * 100)}% errors`)
+  return parts.length > 0 ? parts.join(', ') : 'defaults'
+}
+
+// Empty input means "inherit"; errorRate is edited as a percentage
+function SettingInput({
+  value,
+  onChange,
+  placeholder,
+  percent = false,
+}: {
+  value: number | undefined
+  onChange: (value: number | undefined) => void
+  placeholder: string
+  percent?: boolean
+}) {
+  const shown = value === undefined ? '' : percent ? Math.round(value * 100) : value
+
+  return (
+    <input
+      type="number"
+      min={0}
+      max={percent ? 100 : undefined}
+      value={shown}
+      placeholder={placeholder}
+      onChange={(e) => {
+        if (e.target.value === '') return onChange(undefined)
+        const n = Math.max(0, Number(e.target.value))
+        onChange(percent ? Math.min(n, 100) / 100 : n)
+      }}
+      style={{ width: '5.5rem', padding: '0.25rem 0.5rem', fontSize: '12px' }}
+    />
+  )
+}
+
+function SettingsRow({
+  label,
+  settings,
+  defaultLatency,
+  onChange,
+}: {
+  label: string
+  settings: NetworkSettings
+  defaultLatency?: number
+  onChange: (settings: NetworkSettings) => void
+}) {
+  const update = (key: keyof NetworkSettings) => (value: number | undefined) =>
+    onChange({ ...settings, [key]: value })
+
+  return (
+    <tr>
+      <td style={{ paddingRight: '0.5rem', fontFamily: 'monospace' }}>{label}</td>
+      <td>
+        <SettingInput
+          value={settings.latency}
+          onChange={update('latency')}
+          placeholder={defaultLatency !== undefined ? `${defaultLatency}` : 'ms'}
+        />
+      </td>
+      <td>
+        <SettingInput value={settings.jitter} onChange={update('jitter')} placeholder="±ms" />
+      </td>
+      <td>
+        <SettingInput value={settings.errorRate} onChange={update('errorRate')} placeholder="%" percent />
+      </td>
+    </tr>
+  )
+}
+
+// Floating control panel for app/lib/mock-network
+export function MockNetworkPanel() {
+  const [open, setOpen] = useState(false)
+  const config = useSyncExternalStore(subscribeMockNetwork, getMockNetworkConfig, getServerMockNetworkConfig)
+  const endpoints = useSyncExternalStore(subscribeMockNetwork, getEndpoints, () => noEndpoints)
+
+  const update = (next: MockNetworkConfig) => setMockNetworkConfig(next)
+  const isFailing = (config.global.errorRate ?? 0) > 0
+  const isModified = Object.keys(config.global).length > 0 || Object.keys(config.endpoints).length > 0
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        bottom: '10px',
+        left: '10px',
+        zIndex: 9999,
+        fontSize: '12px',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+      }}
+    >
+      {open ? (
+        <div
+          style={{
+            background: 'white',
+            border: '1px solid var(--border)',
+            borderRadius: '10px',
+            boxShadow: '0 4px 16px rgba(0, 0, 0, 0.2)',
+            padding: '12px 14px',
+            maxWidth: '440px',
+            maxHeight: '70vh',
+            overflowY: 'auto',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <strong style={{ fontSize: '14px' }}>🌐 Mock Network</strong>
+            <button onClick={() => setOpen(false)} style={{ padding: '0.25rem 0.6rem', fontSize: '12px' }}>
+              Close
+            </button>
+          </div>
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '10px' }}>
+            {presets.map((preset) => (
+              <button
+                key={preset.label}
+                onClick={() => update({ ...config, global: preset.global })}
+                className={describe(config.global) === describe(preset.global) ? 'badge badge-active' : 'badge badge-outline'}
+                style={{ margin: 0 }}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', color: '#666' }}>
+                <th />
+                <th>Latency</th>
+                <th>Jitter</th>
+                <th>Errors %</th>
+              </tr>
+            </thead>
+            <tbody>
+              <SettingsRow
+                label="All endpoints"
+                settings={config.global}
+                onChange={(global) => update({ ...config, global })}
+              />
+              {endpoints.map((endpoint) => (
+                <SettingsRow
+                  key={endpoint.name}
+                  label={endpoint.name}
+                  settings={config.endpoints[endpoint.name] ?? {}}
+                  defaultLatency={config.global.latency ?? endpoint.defaultLatency}
+                  onChange={(settings) =>
+                    update({ ...config, endpoints: { ...config.endpoints, [endpoint.name]: settings } })
+                  }
+                />
+              ))}
+            </tbody>
+          </table>
+
+          {endpoints.length === 0 && (
+            <p style={{ color: '#666', margin: '8px 0 0' }}>Endpoints appear here once a demo makes a request.</p>
+          )}
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '10px' }}>
+            <span style={{ color: '#666' }}>Empty fields inherit. Saved in this browser.</span>
+            <button
+              onClick={() => update({ global: {}, endpoints: {} })}
+              disabled={!isModified}
+              style={{ padding: '0.25rem 0.6rem', fontSize: '12px' }}
+            >
+              Reset all
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setOpen(true)}
+          style={{
+            padding: '8px 12px',
+            fontSize: '12px',
+            background: isFailing ? 'var(--error)' : isModified ? 'var(--warning)' : 'rgba(0, 0, 0, 0.8)',
+            boxShadow: '0 4px 16px rgba(0, 0, 0, 0.3)',
+          }}
+        >
+          🌐 Network: {describe(config.global)}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { compileSnippet, type PlaygroundMessage } from '../lib/playground'
+
+type PlaygroundError = { phase: 'Compile' | 'Runtime'; message: string }
+
+// Opt-in live editor: the snippet is compiled here with sucrase and rendered
+// inside a sandboxed iframe, so a broken edit can't take down the demo page
+export function Playground({ title, initialCode }: { title: string; initialCode: string }) {
+  const [open, setOpen] = useState(false)
+  const [code, setCode] = useState(initialCode)
+  const [error, setError] = useState<PlaygroundError | null>(null)
+  const frameRef = useRef<HTMLIFrameElement>(null)
+  const frameReady = useRef(false)
+  const compiled = useRef<string | null>(null)
+
+  const send = (message: PlaygroundMessage) => {
+    frameRef.current?.contentWindow?.postMessage(message, '*')
+  }
+
+  useEffect(() => {
+    if (!open) return
+
+    const onMessage = (event: MessageEvent<PlaygroundMessage>) => {
+      if (event.source !== frameRef.current?.contentWindow) return
+
+      if (event.data.type === 'ready') {
+        frameReady.current = true
+        if (compiled.current) send({ type: 'run', code: compiled.current })
+      } else if (event.data.type === 'rendered') {
+        setError((prev) => (prev?.phase === 'Runtime' ? null : prev))
+      } else if (event.data.type === 'error') {
+        setError({ phase: 'Runtime', message: event.data.message })
+      }
+    }
+
+    window.addEventListener('message', onMessage)
+    return () => {
+      window.removeEventListener('message', onMessage)
+      frameReady.current = false
+    }
+  }, [open])
+
+  // Recompile shortly after the user stops typing
+  useEffect(() => {
+    if (!open) return
+
+    const timeout = setTimeout(() => {
+      const result = compileSnippet(code)
+      if ('error' in result) {
+        setError({ phase: 'Compile', message: result.error })
+        return
+      }
+
+      setError(null)
+      compiled.current = result.code
+      if (frameReady.current) send({ type: 'run', code: result.code })
+    }, 400)
+
+    return () => clearTimeout(timeout)
+  }, [code, open])
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} style={{ marginTop: '1rem' }}>
+        ▶ Open in live playground
+      </button>
+    )
+  }
+
+  return (
+    <div className="playground">
+      <div className="playground-header">
+        <strong>{title}</strong>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button onClick={() => setCode(initialCode)} disabled={code === initialCode}>
+            Reset
+          </button>
+          <button onClick={() => setOpen(false)}>Close</button>
+        </div>
+      </div>
+
+      <div className="playground-body">
+        <textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          spellCheck={false}
+          aria-label={`${title} source`}
+          className="playground-editor"
+        />
+        <iframe
+          ref={frameRef}
+          src="/playground/frame"
+          sandbox="allow-scripts"
+          title={`${title} preview`}
+          className="playground-preview"
+        />
+      </div>
+
+      {error && (
+        <div className="error" style={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace', fontSize: '0.875rem' }}>
+          <strong>{error.phase} error:</strong> {error.message}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+'use client'
+
+import { useState, useSyncExternalStore } from 'react'
+import * as React from 'react'
+import { isReactCompilerActive } from '../lib/compiler-probe'
+import {
+  createSession,
+  getRecorderState,
+  groupByCommit,
+  outermostCommit,
+  parseSession,
+  setComparison,
+  startRecording,
+  stopRecording,
+  subscribeRecorder,
+  summarize,
+  type SessionSummary,
+} from '../lib/profiler-recorder'
+
+const MAX_ROWS = 100
+
+function ms(value: number) {
+  return `${value.toFixed(2)}ms`
+}
+
+function SummaryColumn({ title, summary }: { title: string; summary: SessionSummary }) {
+  return (
+    <div>
+      <strong>{title}</strong>
+      <div>Commits: {summary.commits}</div>
+      <div>Total actual: {ms(summary.totalActual)}</div>
+      <div>Avg actual: {ms(summary.averageActual)}</div>
+      <div>Max actual: {ms(summary.maxActual)}</div>
+      <div>Total base: {ms(summary.totalBase)}</div>
+    </div>
+  )
+}
+
+function download(filename: string, contents: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Floating recorder UI: commit durations per demo, export/import for comparisons
+export function ProfilerPanel({ demoId }: { demoId: string }) {
+  const [open, setOpen] = useState(false)
+  const [label, setLabel] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+  const { recording, commits, comparison } = useSyncExternalStore(
+    subscribeRecorder,
+    getRecorderState,
+    getRecorderState
+  )
+
+  const commitGroups = groupByCommit(commits)
+  const firstCommitTime = commitGroups[0]?.[0].commitTime ?? 0
+  const maxActual = Math.max(1, ...commits.map((c) => c.actualDuration))
+  const compilerActive = isReactCompilerActive()
+
+  const exportSession = () => {
+    const session = createSession(label || (compilerActive ? 'compiler on' : 'compiler off'), {
+      page: demoId,
+      reactVersion: React.version,
+      reactCompiler: compilerActive,
+    })
+    download(`profile-${demoId}-${session.label.replace(/\W+/g, '-')}.json`, JSON.stringify(session, null, 2))
+  }
+
+  const importSession = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      setComparison(parseSession(await file.text()))
+      setImportError(null)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const smallButton = { padding: '4px 10px', fontSize: '12px' }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        style={{
+          position: 'fixed',
+          top: '10px',
+          right: '10px',
+          zIndex: 9999,
+          padding: '8px 12px',
+          fontSize: '12px',
+          background: recording ? 'var(--error)' : 'rgba(0, 0, 0, 0.8)',
+          boxShadow: '0 4px 16px rgba(0, 0, 0, 0.3)',
+        }}
+      >
+        ⏱ Profiler{recording ? ` · recording (${commitGroups.length})` : ''}
+      </button>
+    )
+  }
+
+  return (
+    <aside
+      aria-label="Profiler"
+      style={{
+        position: 'fixed',
+        top: '10px',
+        right: '10px',
+        zIndex: 9999,
+        width: '440px',
+        maxHeight: '70vh',
+        overflowY: 'auto',
+        background: 'white',
+        border: '1px solid var(--border)',
+        borderRadius: '10px',
+        boxShadow: '0 4px 16px rgba(0, 0, 0, 0.2)',
+        padding: '12px 14px',
+        fontSize: '12px',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <strong style={{ fontSize: '14px' }}>⏱ Profiler · {demoId}</strong>
+        <button onClick={() => setOpen(false)} style={smallButton}>
+          Close
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '8px' }}>
+        {recording ? (
+          <button onClick={stopRecording} style={{ ...smallButton, background: 'var(--error)' }}>
+            ■ Stop
+          </button>
+        ) : (
+          <button onClick={startRecording} style={smallButton}>
+            ● Record
+          </button>
+        )}
+        <button onClick={exportSession} disabled={recording || commits.length === 0} style={smallButton}>
+          Export JSON
+        </button>
+        <label className="badge badge-outline" style={{ margin: 0, cursor: 'pointer' }}>
+          Import to compare
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => importSession(e.target.files?.[0])}
+            style={{ display: 'none' }}
+          />
+        </label>
+      </div>
+
+      <input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        placeholder={`Session label (default: ${compilerActive ? 'compiler on' : 'compiler off'})`}
+        style={{ width: '100%', padding: '4px 8px', fontSize: '12px', marginBottom: '8px' }}
+      />
+
+      {process.env.NODE_ENV === 'production' && (
+        <p style={{ color: 'var(--warning)', margin: '0 0 8px' }}>
+          Profiler timings are only reported in development or profiling builds.
+        </p>
+      )}
+      {importError && <p style={{ color: 'var(--error)', margin: '0 0 8px' }}>{importError}</p>}
+
+      <div style={{ display: 'grid', gridTemplateColumns: comparison ? '1fr 1fr' : '1fr', gap: '8px', marginBottom: '10px' }}>
+        <SummaryColumn title={`This run (${compilerActive ? 'compiler on' : 'compiler off'})`} summary={summarize(commits)} />
+        {comparison && (
+          <div>
+            <SummaryColumn
+              title={`${comparison.label} (${comparison.page})`}
+              summary={summarize(comparison.commits)}
+            />
+            <button onClick={() => setComparison(null)} style={{ ...smallButton, marginTop: '4px' }}>
+              Remove
+            </button>
+          </div>
+        )}
+      </div>
+
+      {commitGroups.length === 0 ? (
+        <p style={{ color: '#666', margin: 0 }}>
+          {recording ? 'Interact with the demo…' : 'Press Record, interact with the demo, then Stop.'}
+        </p>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', color: '#666' }}>
+              <th>#</th>
+              <th>At</th>
+              <th>Subtrees</th>
+              <th>Actual / base</th>
+            </tr>
+          </thead>
+          <tbody>
+            {commitGroups
+              .map((group, index) => ({ group, index }))
+              .slice(-MAX_ROWS)
+              .reverse()
+              .map(({ group, index }) => {
+                const outer = outermostCommit(group)
+                return (
+                  <tr key={index} style={{ borderTop: '1px solid var(--border)', verticalAlign: 'top' }}>
+                    <td>{index + 1}</td>
+                    <td>+{Math.round(outer.commitTime - firstCommitTime)}ms</td>
+                    <td style={{ fontFamily: 'monospace' }}>
+                      {group.map((c) => (
+                        <div key={c.id}>
+                          {c.id} <span style={{ color: '#666' }}>({c.phase})</span>
+                        </div>
+                      ))}
+                    </td>
+                    <td style={{ minWidth: '120px' }}>
+                      {ms(outer.actualDuration)} / {ms(outer.baseDuration)}
+                      <div
+                        style={{
+                          height: '4px',
+                          marginTop: '2px',
+                          width: `${(outer.actualDuration / maxActual) * 100}%`,
+                          background: 'var(--primary)',
+                          borderRadius: '2px',
+                        }}
+                      />
+                    </td>
+                  </tr>
+                )
+              })}
+          </tbody>
+        </table>
+      )}
+    </aside>
+  )
+}
@@ -1,141 +1,222 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import * as React from 'react';
+import { usePathname } from 'next/navigation';
+import { isReactCompilerActive } from '../lib/compiler-probe';
+
+type Diagnostics = {
+  reactVersion: string;
+  nextVersion: string;
+  buildMode: 'Development' | 'Production';
+  canProfile: boolean;
+  reactCompiler: boolean;
+  strictMode: 'Active' | 'Inactive' | 'Unknown';
+  hydration: {
+    page: string;
+    hydratedAtMs: number;
+    mismatches: number;
+  };
+  capabilities: {
+    viewTransitions: boolean;
+    captureOwnerStack: boolean;
+    reactDevTools: boolean;
+  };
+  userAgent: string;
+};
+
+// Count hydration mismatches React reports while this module is loaded. React passes
+// them to onRecoverableError, which Next.js reports as uncaught errors (reportError),
+// so they arrive as window error events. Production builds minify the message to
+// its code: 418 is a mismatch. Installed at module load, before the page hydrates.
+const HYDRATION_MISMATCH = /Hydration failed|React error #418\b/;
+
+let hydrationMismatches = 0;
+if (typeof window !== 'undefined') {
+  window.addEventListener('error', (event) => {
+    const message = event.error instanceof Error ? event.error.message : event.message;
+    if (HYDRATION_MISMATCH.test(message)) {
+      hydrationMismatches += 1;
+    }
+  });
+}
+
+const DISMISS_KEY = 'diagnostics-dismissed';
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <strong>{label}:</strong> {children}
+    </div>
+  );
+}
+
+function yesNo(value: boolean) {
+  return value ? '✅ Yes' : '❌ No';
+}
 
 export function ReactBuildVerifier() {
-  const [buildInfo, setBuildInfo] = useState<{
-    reactVersion: string;
-    buildMode: string;
-    canProfile: boolean;
-  } | null>(null);
+  const pathname = usePathname();
+  const [diagnostics, setDiagnostics] = useState<Diagnostics | null>(null);
+  const [open, setOpen] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const effectRuns = useRef(0);
 
   useEffect(() => {
-    try {
-      // Get React version and mode
-      const reactVersion = React.version;
-      const isDevelopment = process.env.NODE_ENV !== 'production';
-      
-      // In React 19, profiling is available in development mode by default!
-      const canProfile = isDevelopment;
-      const buildMode = isDevelopment ? 'Development' : 'Production';
-      
-      const info = {
-        reactVersion,
-        buildMode,
-        canProfile,
-      };
-      
-      setBuildInfo(info);
-      
-      // Console logging
-      console.group('🔍 React Profiling Status');
-      console.log('React Version:', reactVersion);
-      console.log('Build Mode:', buildMode);
-      console.log('Can Profile:', canProfile ? '✅ YES' : '❌ NO');
-      console.log('');
-      console.log('📊 React DevTools Profiler:');
-      if (canProfile) {
-        console.log('  ✅ Profiling is available!');
-        console.log('  1. Open DevTools');
-        console.log('  2. Go to Profiler tab (⚛️ icon)');
-        console.log('  3. Click Record → interact → Stop');
-        console.log('  4. Analyze flame graphs and timing data');
-      } else {
-        console.log('  ⚠️ Running in production mode');
-        console.log('  💡 Use development mode for profiling');
-      }
-      console.log('');
-      console.log('💡 Note: React 19 includes profiling support in development mode.');
-      console.log('   You do NOT need react-dom/profiling for development!');
-      console.groupEnd();
-      
-      // Check if React DevTools is installed
-      setTimeout(() => {
-        // @ts-ignore
-        const hasDevTools = window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
-        if (hasDevTools) {
-          console.log('✅ React DevTools detected - Profiler should be available');
-        } else {
-          console.warn('⚠️ React DevTools not detected - Install the browser extension');
-          console.log('   Chrome: https://chrome.google.com/webstore/detail/fmkadmapgofadopljbjfkapdkoienihi');
-          console.log('   Firefox: https://addons.mozilla.org/en-US/firefox/addon/react-devtools/');
-        }
-      }, 1000);
-      
-    } catch (error) {
-      console.error('Error checking React status:', error);
-      setBuildInfo({
-        reactVersion: 'Error',
-        buildMode: 'Unknown',
-        canProfile: false,
+    // Strict Mode runs mount effects twice in development; refs survive the
+    // simulated unmount, so a second run means Strict Mode is on
+    effectRuns.current += 1;
+    const isDevelopment = process.env.NODE_ENV !== 'production';
+
+    const timeout = setTimeout(() => {
+      setDismissed(sessionStorage.getItem(DISMISS_KEY) === '1');
+      setDiagnostics({
+        reactVersion: React.version,
+        nextVersion: (window as { next?: { version?: string } }).next?.version ?? 'Unknown',
+        buildMode: isDevelopment ? 'Development' : 'Production',
+        // In React 19, profiling is available in development mode by default
+        canProfile: isDevelopment,
+        reactCompiler: isReactCompilerActive(),
+        strictMode: !isDevelopment ? 'Unknown' : effectRuns.current > 1 ? 'Active' : 'Inactive',
+        hydration: {
+          page: window.location.pathname,
+          hydratedAtMs: Math.round(performance.now()),
+          mismatches: hydrationMismatches,
+        },
+        capabilities: {
+          viewTransitions: 'startViewTransition' in document,
+          captureOwnerStack: typeof (React as { captureOwnerStack?: unknown }).captureOwnerStack === 'function',
+          // @ts-ignore
+          reactDevTools: Boolean(window.__REACT_DEVTOOLS_GLOBAL_HOOK__),
+        },
+        userAgent: navigator.userAgent,
       });
-    }
+    }, 0);
+
+    return () => clearTimeout(timeout);
   }, []);
 
-  if (!buildInfo) {
+  // Mismatches can be reported after the first effect; refresh the count when opened
+  useEffect(() => {
+    if (open) {
+      setDiagnostics((prev) =>
+        prev && { ...prev, hydration: { ...prev.hydration, mismatches: hydrationMismatches } }
+      );
+    }
+  }, [open]);
+
+  if (!diagnostics || dismissed) return null;
+
+  const dismiss = () => {
+    sessionStorage.setItem(DISMISS_KEY, '1');
+    setDismissed(true);
+  };
+
+  const copy = async () => {
+    const report = { ...diagnostics, currentPage: pathname, copiedAt: new Date().toISOString() };
+    await navigator.clipboard.writeText(JSON.stringify(report, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const healthy = diagnostics.canProfile && diagnostics.reactCompiler && diagnostics.hydration.mismatches === 0;
+  const accent = healthy ? '#00ff00' : '#ff9900';
+  const smallButton = { padding: '4px 10px', fontSize: '12px' };
+
+  if (!open) {
     return (
-      <div style={{
+      <button
+        onClick={() => setOpen(true)}
+        title="Show diagnostics"
+        style={{
+          position: 'fixed',
+          bottom: '10px',
+          right: '10px',
+          zIndex: 9999,
+          padding: '8px 12px',
+          fontSize: '12px',
+          background: 'rgba(0, 0, 0, 0.8)',
+          border: `2px solid ${accent}`,
+          boxShadow: '0 4px 16px rgba(0, 0, 0, 0.3)',
+        }}
+      >
+        ⚛️ React {diagnostics.reactVersion} · {diagnostics.buildMode}
+      </button>
+    );
+  }
+
+  return (
+    <aside
+      aria-label="Diagnostics"
+      style={{
         position: 'fixed',
         bottom: '10px',
         right: '10px',
-        background: 'rgba(0, 0, 0, 0.8)',
-        color: '#ffff00',
-        padding: '12px',
-        borderRadius: '8px',
-        fontSize: '12px',
-        fontFamily: 'monospace',
+        background: 'rgba(0, 0, 0, 0.92)',
+        color: '#ffffff',
+        padding: '14px 18px',
+        borderRadius: '10px',
+        fontSize: '13px',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
         zIndex: 9999,
-      }}>
-        <strong>🔍 Loading verification...</strong>
+        width: '360px',
+        maxHeight: '80vh',
+        overflowY: 'auto',
+        boxShadow: '0 4px 16px rgba(0, 0, 0, 0.6)',
+        border: `2px solid ${accent}`,
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+        <span style={{ fontSize: '16px', fontWeight: 'bold' }}>⚛️ Diagnostics</span>
+        <span style={{ display: 'flex', gap: '6px' }}>
+          <button onClick={() => setOpen(false)} style={smallButton} title="Collapse">
+            –
+          </button>
+          <button onClick={dismiss} style={smallButton} title="Hide for this session">
+            ×
+          </button>
+        </span>
       </div>
-    );
-  }
 
-  return (
-    <div style={{
-      position: 'fixed',
-      bottom: '10px',
-      right: '10px',
-      background: buildInfo.canProfile 
-        ? 'rgba(0, 100, 0, 0.95)' 
-        : 'rgba(100, 50, 0, 0.95)',
-      color: '#ffffff',
-      padding: '14px 18px',
-      borderRadius: '10px',
-      fontSize: '13px',
-      fontFamily: 'system-ui, -apple-system, sans-serif',
-      zIndex: 9999,
-      maxWidth: '340px',
-      boxShadow: '0 4px 16px rgba(0, 0, 0, 0.6)',
-      border: buildInfo.canProfile 
-        ? '2px solid #00ff00' 
-        : '2px solid #ff9900',
-    }}>
-      <div style={{ marginBottom: '10px', fontSize: '16px', fontWeight: 'bold' }}>
-        ⚛️ React Profiling Status
-      </div>
       <div style={{ lineHeight: '1.8' }}>
-        <div><strong>React:</strong> {buildInfo.reactVersion}</div>
-        <div><strong>Mode:</strong> {buildInfo.buildMode}</div>
-        <div><strong>Profiling:</strong> {buildInfo.canProfile ? '✅ Available' : '❌ Not Available'}</div>
-        
-        <div style={{ 
-          marginTop: '12px', 
-          paddingTop: '12px', 
-          borderTop: '1px solid rgba(255,255,255,0.3)',
-          fontSize: '11px',
-          lineHeight: '1.5'
-        }}>
-          {buildInfo.canProfile ? (
+        <Row label="React">{diagnostics.reactVersion}</Row>
+        <Row label="Next.js">{diagnostics.nextVersion}</Row>
+        <Row label="Mode">{diagnostics.buildMode}</Row>
+        <Row label="React Compiler">{diagnostics.reactCompiler ? '✅ Transforming components' : '❌ Not applied'}</Row>
+        <Row label="Strict Mode">{diagnostics.strictMode === 'Unknown' ? 'Unknown (not observable in production)' : diagnostics.strictMode}</Row>
+
+        <div style={{ marginTop: '10px', paddingTop: '10px', borderTop: '1px solid rgba(255,255,255,0.3)' }}>
+          <Row label="Hydrated">
+            {diagnostics.hydration.page} after {diagnostics.hydration.hydratedAtMs}ms
+          </Row>
+          <Row label="Hydration mismatches">
+            {diagnostics.hydration.mismatches === 0 ? '✅ None' : `⚠️ ${diagnostics.hydration.mismatches}`}
+          </Row>
+          {pathname !== diagnostics.hydration.page && <Row label="Current page">{pathname} (client navigation)</Row>}
+        </div>
+
+        <div style={{ marginTop: '10px', paddingTop: '10px', borderTop: '1px solid rgba(255,255,255,0.3)' }}>
+          <Row label="View Transitions API">{yesNo(diagnostics.capabilities.viewTransitions)}</Row>
+          <Row label="captureOwnerStack">{yesNo(diagnostics.capabilities.captureOwnerStack)}</Row>
+          <Row label="React DevTools">{yesNo(diagnostics.capabilities.reactDevTools)}</Row>
+        </div>
+
+        <div
+          style={{
+            marginTop: '10px',
+            paddingTop: '10px',
+            borderTop: '1px solid rgba(255,255,255,0.3)',
+            fontSize: '11px',
+            lineHeight: '1.5',
+          }}
+        >
+          {diagnostics.canProfile ? (
             <>
               <div style={{ marginBottom: '6px', fontWeight: 'bold' }}>📊 How to Profile:</div>
               <div>1. Open DevTools</div>
               <div>2. Go to &quot;Profiler&quot; tab</div>
               <div>3. Record → Interact → Stop</div>
-              <div style={{ marginTop: '6px', opacity: 0.8 }}>
-                💡 No special setup needed!
-              </div>
             </>
           ) : (
             <>
@@ -147,7 +228,10 @@ export function ReactBuildVerifier() {
           )}
         </div>
       </div>
-    </div>
+
+      <button onClick={copy} style={{ ...smallButton, marginTop: '12px', width: '100%' }}>
+        {copied ? '✅ Copied' : '📋 Copy diagnostics as JSON'}
+      </button>
+    </aside>
   );
 }
-
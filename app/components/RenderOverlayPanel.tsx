@@ -0,0 +1,81 @@
+'use client'
+
+import { useEffect, useSyncExternalStore } from 'react'
+import {
+  getRenderCounts,
+  isRenderOverlayEnabled,
+  resetRenderCounts,
+  setRenderOverlayEnabled,
+  subscribeRenderTracker,
+} from '../lib/render-tracker'
+
+const noCounts: Record<string, number> = {}
+
+// Global switch and live counter list for components using useRenderTracker / <RenderTracker>
+export function RenderOverlayPanel() {
+  const enabled = useSyncExternalStore(subscribeRenderTracker, isRenderOverlayEnabled, () => false)
+  const counts = useSyncExternalStore(subscribeRenderTracker, getRenderCounts, () => noCounts)
+  const entries = Object.entries(counts)
+
+  // Restore the persisted setting's page-level class after a reload
+  useEffect(() => {
+    document.documentElement.classList.toggle('render-overlay', isRenderOverlayEnabled())
+  }, [])
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        bottom: '56px',
+        left: '10px',
+        zIndex: 9999,
+        fontSize: '12px',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+      }}
+    >
+      {enabled && (
+        <div
+          style={{
+            background: 'rgba(0, 0, 0, 0.85)',
+            color: 'white',
+            borderRadius: '10px',
+            padding: '10px 12px',
+            marginBottom: '6px',
+            minWidth: '200px',
+            maxHeight: '40vh',
+            overflowY: 'auto',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', marginBottom: '6px' }}>
+            <strong>Render counts</strong>
+            <button onClick={resetRenderCounts} style={{ padding: '0 8px', fontSize: '11px' }}>
+              Reset
+            </button>
+          </div>
+          {entries.length === 0 ? (
+            <div style={{ opacity: 0.7 }}>Interact with a demo to see commits.</div>
+          ) : (
+            entries.map(([name, count]) => (
+              <div key={name} style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', fontFamily: 'monospace' }}>
+                <span>{name}</span>
+                <span>{count}</span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+      <button
+        onClick={() => setRenderOverlayEnabled(!enabled)}
+        aria-pressed={enabled}
+        style={{
+          padding: '8px 12px',
+          fontSize: '12px',
+          background: enabled ? 'var(--secondary)' : 'rgba(0, 0, 0, 0.8)',
+          boxShadow: '0 4px 16px rgba(0, 0, 0, 0.3)',
+        }}
+      >
+        🔁 Render overlay: {enabled ? 'on' : 'off'}
+      </button>
+    </div>
+  )
+}
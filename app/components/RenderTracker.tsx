@@ -0,0 +1,52 @@
+'use client'
+
+import { Profiler, useEffect, useRef } from 'react'
+import { recordCommit } from '../lib/profiler-recorder'
+import { flashElement, recordRender } from '../lib/render-tracker'
+
+// Opt a component into the render overlay. Attach the returned ref to the
+// component's root element; every commit of the component bumps its counter
+// and flashes the element while the overlay is on.
+export function useRenderTracker<T extends HTMLElement>(name: string) {
+  const ref = useRef<T>(null)
+  const replayed = useRef(false)
+
+  // Only cleaned up on unmount or when Strict Mode replays mount effects in development
+  useEffect(() => {
+    return () => {
+      replayed.current = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (replayed.current) {
+      // Strict Mode re-ran the mount effects; this is not a new commit
+      replayed.current = false
+      return
+    }
+    flashElement(ref.current, recordRender(name))
+  })
+
+  return ref
+}
+
+// Wrapper alternative to useRenderTracker: counts commits anywhere in the
+// wrapped subtree. Profiler callbacks only fire in development builds; they
+// also feed the profiler recorder so the subtree shows up in recordings.
+export function RenderTracker({ name, children }: { name: string; children: React.ReactNode }) {
+  const ref = useRef<HTMLDivElement>(null)
+
+  return (
+    <div ref={ref}>
+      <Profiler
+        id={name}
+        onRender={(...args) => {
+          recordCommit(...args)
+          flashElement(ref.current, recordRender(name))
+        }}
+      >
+        {children}
+      </Profiler>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { tokenizeLines, type SourceSnippet } from '../lib/source'
+
+// Renders a snippet from `import snippets from './file.tsx?names=Name&source'` with
+// highlighting and the line numbers it has in the real file
+export function SourceCode({ snippet }: { snippet: SourceSnippet }) {
+  const lines = tokenizeLines(snippet.code)
+
+  return (
+    <figure className="source-code">
+      <figcaption>
+        <code>{snippet.file}</code> · line {snippet.startLine}
+      </figcaption>
+      <pre>
+        <code>
+          {lines.map((tokens, i) => (
+            <span key={i} className="source-line">
+              <span className="line-number" aria-hidden="true">
+                {snippet.startLine + i}
+              </span>
+              {tokens.map((token, j) =>
+                token.type === 'plain' ? (
+                  token.text
+                ) : (
+                  <span key={j} className={`tok-${token.type}`}>
+                    {token.text}
+                  </span>
+                )
+              )}
+            </span>
+          ))}
+        </code>
+      </pre>
+    </figure>
+  )
+}
@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('context-provider')
+
+export default function ContextProviderLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="context-provider">{children}</DemoShell>
+}
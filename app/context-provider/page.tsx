@@ -1,7 +1,6 @@
 'use client'
 
 import { createContext, use, useState } from 'react'
-import Link from 'next/link'
 
 // Create a theme context
 const ThemeContext = createContext<{
@@ -59,11 +58,7 @@ export default function ContextProviderDemo() {
   const [theme, setTheme] = useState('light')
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>Context as Provider Demo</h1>
 
       <div className="demo-section">
@@ -235,6 +230,6 @@ export default function App() {
           <strong>Note:</strong> For complex state management, consider libraries like Zustand or Redux.
         </p>
       </div>
-    </div>
+    </>
   )
 }
@@ -0,0 +1,9 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// Updating the value of <ThemeContext> reaches both direct and deeply nested consumers
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.waitForText('Current theme: light')
+  await page.click('Toggle Theme')
+  await page.waitForText('Current theme: dark')
+  await page.waitForText('It can still access the theme: dark')
+}
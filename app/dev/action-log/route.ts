@@ -0,0 +1,45 @@
+import { getRecentInvocations, subscribeActionLog, type ActionInvocation } from '../../lib/action-log'
+
+export const dynamic = 'force-dynamic'
+
+// Server-Sent Events stream of server action invocations for ActionLogPanel:
+// the recent ones first, then each new one as it finishes. Development only.
+export function GET(request: Request) {
+  if (process.env.NODE_ENV !== 'development') {
+    return new Response('Not found', { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let unsubscribe = () => {}
+  // Set once the client disconnects or cancels; closing or writing after that throws
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (invocation: ActionInvocation) => {
+        if (!closed) controller.enqueue(encoder.encode(`data: ${JSON.stringify(invocation)}\n\n`))
+      }
+
+      getRecentInvocations().forEach(send)
+      unsubscribe = subscribeActionLog(send)
+      request.signal.addEventListener('abort', () => {
+        unsubscribe()
+        if (closed) return
+        closed = true
+        controller.close()
+      })
+    },
+    cancel() {
+      closed = true
+      unsubscribe()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
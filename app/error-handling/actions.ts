@@ -0,0 +1,49 @@
+'use server'
+
+import { instrumentAction } from '../lib/action-log'
+import { simulateLatency } from '../lib/server-latency'
+
+// Two versions of the same action, failing the same way. One returns the failure
+// as state the form can render; the other throws, so it surfaces through the
+// nearest error boundary (./error.tsx) like an error thrown while rendering.
+
+export type SaveNoteState = {
+  status: 'idle' | 'saved' | 'error'
+  message?: string
+}
+
+// Stands in for a database write; "Fail on the server" makes it throw
+async function saveNote(formData: FormData) {
+  await simulateLatency(500)
+
+  const note = String(formData.get('note') ?? '').trim() || 'Untitled'
+  if (formData.get('fail') === 'on') {
+    throw new Error(`Could not save note "${note}": the notes database is unavailable`)
+  }
+  return note
+}
+
+// Expected failures: catch them and return a message. The form keeps its state
+// and the error is shown next to it.
+export const saveNoteReturningError = instrumentAction(
+  'saveNoteReturningError',
+  async (prevState: SaveNoteState, formData: FormData): Promise<SaveNoteState> => {
+    try {
+      const note = await saveNote(formData)
+      return { status: 'saved', message: `Saved "${note}"` }
+    } catch (error) {
+      console.error('[error-handling] returned to the client:', error)
+      return { status: 'error', message: (error as Error).message }
+    }
+  }
+)
+
+// Unexpected failures: let them throw. In production the client only receives a
+// generic message and a digest; instrumentation.ts logs the digest with the original error.
+export const saveNoteThrowingError = instrumentAction(
+  'saveNoteThrowingError',
+  async (prevState: SaveNoteState, formData: FormData): Promise<SaveNoteState> => {
+    const note = await saveNote(formData)
+    return { status: 'saved', message: `Saved "${note}"` }
+  }
+)
@@ -0,0 +1,41 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// Segment error boundary for /error-handling. It replaces the page (the layout
+// and DemoShell stay) when the page throws, including when a server action the
+// page called throws instead of returning an error.
+export default function ErrorHandlingError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string }
+  reset: () => void
+}) {
+  useEffect(() => {
+    console.error(error)
+  }, [error])
+
+  return (
+    <div className="demo-section">
+      <h2>⚠️ Caught by app/error-handling/error.tsx</h2>
+      <div className="error" style={{ marginBottom: '1rem' }}>
+        <strong>Error:</strong> {error.message}
+      </div>
+
+      <p>
+        <strong>Digest:</strong> <code>{error.digest ?? 'none (the error was thrown on the client)'}</code>
+      </p>
+      <p style={{ fontSize: '0.9rem', color: '#666', marginTop: '0.5rem' }}>
+        Production builds replace the message of an error thrown on the server with a generic one, so it
+        can&apos;t leak details to the browser. Search the server logs for this digest: the{' '}
+        <code>onRequestError</code> hook in <code>instrumentation.ts</code> prints it next to the original error.
+      </p>
+
+      {/* Re-renders the segment; the page starts over with fresh state */}
+      <button onClick={reset} style={{ marginTop: '1rem' }}>
+        Try again
+      </button>
+    </div>
+  )
+}
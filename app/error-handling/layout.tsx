@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('error-handling')
+
+export default function ErrorHandlingLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="error-handling">{children}</DemoShell>
+}
@@ -1,7 +1,10 @@
 'use client'
 
-import { Component, ReactNode, useState } from 'react'
-import Link from 'next/link'
+import { Component, ReactNode, useActionState, useState } from 'react'
+import { mockRequest } from '../lib/mock-network'
+import { SourceCode } from '../components/SourceCode'
+import { saveNoteReturningError, saveNoteThrowingError, type SaveNoteState } from './actions'
+import actionSnippets from './actions.ts?names=saveNoteReturningError,saveNoteThrowingError&source'
 
 // Error Boundary Component
 class ErrorBoundary extends Component<
@@ -51,16 +54,13 @@ function AsyncBuggyComponent({ shouldError }: { shouldError: boolean }) {
   const fetchData = async () => {
     try {
       setError(null)
-      await new Promise((resolve, reject) => {
-        setTimeout(() => {
-          if (shouldError) {
-            reject(new Error('Failed to fetch data from server'))
-          } else {
-            resolve('Data loaded successfully!')
-          }
-        }, 1000)
+      const result = await mockRequest('error-handling/fetch', 1000, () => {
+        if (shouldError) {
+          throw new Error('Failed to fetch data from server')
+        }
+        return 'Data loaded successfully!'
       })
-      setData('Data loaded successfully!')
+      setData(result)
     } catch (err) {
       setError(err as Error)
     }
@@ -83,16 +83,43 @@ function AsyncBuggyComponent({ shouldError }: { shouldError: boolean }) {
   )
 }
 
+// Same form for both actions; only what the action does with the failure differs
+function NoteForm({
+  action,
+  label,
+  fail,
+}: {
+  action: (prevState: SaveNoteState, formData: FormData) => Promise<SaveNoteState>
+  label: string
+  fail: boolean
+}) {
+  const [state, formAction, isPending] = useActionState(action, { status: 'idle' })
+
+  return (
+    <form action={formAction} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      <input name="note" placeholder="Note title" defaultValue="Groceries" />
+      {fail && <input type="hidden" name="fail" value="on" />}
+      <button type="submit" disabled={isPending}>
+        {isPending ? 'Saving...' : label}
+      </button>
+
+      {state.status === 'error' && (
+        <div className="error">
+          <strong>Returned error:</strong> {state.message}
+        </div>
+      )}
+      {state.status === 'saved' && <div className="success">{state.message}</div>}
+    </form>
+  )
+}
+
 export default function ErrorHandlingDemo() {
   const [triggerError, setTriggerError] = useState(false)
   const [triggerAsyncError, setTriggerAsyncError] = useState(false)
+  const [failOnServer, setFailOnServer] = useState(false)
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>Error Handling Demo</h1>
 
       <div className="demo-section">
@@ -157,6 +184,39 @@ export default function ErrorHandlingDemo() {
         <AsyncBuggyComponent shouldError={triggerAsyncError} />
       </div>
 
+      <div className="demo-section">
+        <h2>Demo 3: Server Action Errors, Returned vs Thrown</h2>
+        <p>
+          Both forms call a real <code>&apos;use server&apos;</code> action through <code>useActionState</code>, and both
+          actions fail the same way. The first catches the failure and returns it as state, so the form shows it inline
+          and keeps working. The second lets it throw: React rethrows it while rendering the form, and the nearest error
+          boundary, <code>app/error-handling/error.tsx</code>, replaces this page with the error, its digest and a
+          retry button.
+        </p>
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', margin: '1rem 0' }}>
+          <input type="checkbox" checked={failOnServer} onChange={(e) => setFailOnServer(e.target.checked)} />
+          Make the save fail on the server
+        </label>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1rem' }}>
+          <div className="card">
+            <h4>Returns the error</h4>
+            <p style={{ fontSize: '0.9rem', color: '#666', marginBottom: '0.5rem' }}>
+              For expected failures: validation, conflicts, a service that is down.
+            </p>
+            <NoteForm action={saveNoteReturningError} label="Save (returns error)" fail={failOnServer} />
+          </div>
+          <div className="card">
+            <h4>Throws the error</h4>
+            <p style={{ fontSize: '0.9rem', color: '#666', marginBottom: '0.5rem' }}>
+              For bugs and failures the form can&apos;t handle. The message is hidden in production.
+            </p>
+            <NoteForm action={saveNoteThrowingError} label="Save (throws error)" fail={failOnServer} />
+          </div>
+        </div>
+      </div>
+
       <div className="demo-section">
         <h2>Code Example - Error Boundary</h2>
         <pre>
@@ -208,51 +268,13 @@ function App() {
 
       <div className="demo-section">
         <h2>Code Example - Server Action Error Handling</h2>
-        <pre>
-          <code>{`'use server'
-
-export async function submitForm(formData: FormData) {
-  try {
-    const data = formData.get('data')
-    
-    // Validation
-    if (!data) {
-      throw new Error('Data is required')
-    }
-    
-    // Process
-    await saveToDatabase(data)
-    
-    return { success: true }
-  } catch (error) {
-    // Return error to client
-    return { 
-      success: false, 
-      error: error.message 
-    }
-  }
-}
-
-// Client component
-'use client'
-
-import { useActionState } from 'react'
-
-function Form() {
-  const [state, formAction] = useActionState(submitForm, null)
-
-  return (
-    <form action={formAction}>
-      <input name="data" />
-      <button type="submit">Submit</button>
-      
-      {state?.error && (
-        <div className="error">{state.error}</div>
-      )}
-    </form>
-  )
-}`}</code>
-        </pre>
+        <p>
+          The actions behind Demo 3. Errors that reach the client from a thrown action carry a <code>digest</code>; the{' '}
+          <code>onRequestError</code> hook in <code>instrumentation.ts</code> logs the same digest on the server with the
+          original message and stack.
+        </p>
+        <SourceCode snippet={actionSnippets.saveNoteReturningError} />
+        <SourceCode snippet={actionSnippets.saveNoteThrowingError} />
       </div>
 
       <div className="demo-section">
@@ -396,6 +418,6 @@ class ErrorBoundary extends Component {
           <li><strong>Development Mode:</strong> Enhanced error overlays</li>
         </ul>
       </div>
-    </div>
+    </>
   )
 }
@@ -0,0 +1,25 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// The error boundary catches a render error and recovers; async errors are shown inline;
+// a returned server action error stays in the form, a thrown one reaches error.tsx
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.click('Break Component')
+  await page.waitForText('Error Caught by Boundary')
+  await page.click('Reset and Try Again')
+  await page.waitForText('Component rendered successfully!')
+
+  await page.click('Fetch Data (Will Succeed)')
+  await page.waitForText('Data loaded successfully!')
+  await page.click('Simulate API error')
+  await page.click('Fetch Data (Will Fail)')
+  await page.waitForText('Failed to fetch data from server')
+
+  await page.click('Make the save fail on the server')
+  await page.click('Save (returns error)')
+  await page.waitForText('Returned error:')
+  await page.click('Save (throws error)')
+  await page.waitForText('Caught by app/error-handling/error.tsx')
+  await page.waitForText('Digest:')
+  await page.click('Try again')
+  await page.waitForText('Demo 3: Server Action Errors, Returned vs Thrown')
+}
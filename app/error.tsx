@@ -0,0 +1,26 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// Fallback for demos without their own error boundary, e.g. a use() promise
+// rejected because the mock network error rate was raised
+export default function DemoError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string }
+  reset: () => void
+}) {
+  useEffect(() => {
+    console.error(error)
+  }, [error])
+
+  return (
+    <div className="container">
+      <div className="error">
+        <strong>Something went wrong:</strong> {error.message}
+      </div>
+      <button onClick={reset}>Try again</button>
+    </div>
+  )
+}
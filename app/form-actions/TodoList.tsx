@@ -0,0 +1,137 @@
+'use client'
+
+import { useActionState, type ComponentProps } from 'react'
+import { useFormStatus } from 'react-dom'
+import type { FormActionState, FormSchema } from '../lib/form-schema'
+import { addTodoAction, clearTodosAction, deleteTodoAction, updateTodoAction } from './actions'
+import { deleteTodoForm, editTodoForm, newTodoForm } from './schema'
+import type { FormTodo } from './todos'
+
+// The browser adds the submitter's name and value to the FormData, so useFormStatus
+// can tell which of a form's buttons submitted it
+function SubmitButton({
+  intent,
+  label,
+  pendingLabel,
+  ...props
+}: { intent: string; label: string; pendingLabel: string } & ComponentProps<'button'>) {
+  const { pending, data } = useFormStatus()
+
+  return (
+    <button type="submit" name="intent" value={intent} disabled={pending} {...props}>
+      {pending && data?.get('intent') === intent ? pendingLabel : label}
+    </button>
+  )
+}
+
+// A field's error when there is one, otherwise the action's message
+function FormMessage({ state, field }: { state: FormActionState<FormSchema>; field?: string }) {
+  const message = (field && state.fieldErrors[field]) || state.message
+  if (!message) return null
+  return (
+    <span style={{ color: state.status === 'error' ? 'var(--error)' : 'var(--success)', fontSize: '0.9rem' }}>
+      {message}
+    </span>
+  )
+}
+
+function AddTodoForm() {
+  const [state, formAction] = useActionState(addTodoAction, newTodoForm.initialState)
+
+  return (
+    <form
+      action={formAction}
+      style={{
+        display: 'flex',
+        gap: '0.5rem',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        maxWidth: '500px',
+        marginBottom: '2rem',
+      }}
+    >
+      <input
+        {...newTodoForm.attributes('text', 'new-todo-text')}
+        // React resets the form after the action; this refills it when the todo was rejected
+        defaultValue={state.values.text}
+        placeholder="Enter a todo..."
+        aria-invalid={state.fieldErrors.text ? true : undefined}
+        style={{ flex: 1 }}
+      />
+      <SubmitButton intent="add" label="Add Todo" pendingLabel="Adding..." />
+      {/* A second submit button with its own action. formNoValidate: clearing doesn't need the text */}
+      <SubmitButton
+        intent="clear"
+        label="Clear all"
+        pendingLabel="Clearing..."
+        formAction={clearTodosAction}
+        formNoValidate
+      />
+      <FormMessage state={state} field="text" />
+    </form>
+  )
+}
+
+// One form per row; Save and Delete submit it to different actions through `formAction`
+function TodoItem({ todo }: { todo: FormTodo }) {
+  const [saveState, saveAction] = useActionState(updateTodoAction, editTodoForm.initialState)
+  const [deleteState, deleteAction] = useActionState(deleteTodoAction, deleteTodoForm.initialState)
+
+  return (
+    <form
+      data-todo-id={todo.id}
+      style={{
+        display: 'flex',
+        gap: '0.5rem',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        padding: '0.75rem',
+        background: 'var(--card-bg)',
+        border: '1px solid var(--border)',
+        borderRadius: '6px',
+      }}
+    >
+      {/* Every row renders the same fields, so their IDs get the todo's ID */}
+      <input {...editTodoForm.attributes('id', `todo-id-${todo.id}`)} value={todo.id} />
+      <input
+        {...editTodoForm.attributes('text', `todo-text-${todo.id}`)}
+        defaultValue={saveState.status === 'error' ? saveState.values.text : todo.text}
+        aria-label={`Edit "${todo.text}"`}
+        aria-invalid={saveState.fieldErrors.text ? true : undefined}
+        style={{ flex: 1 }}
+      />
+      <SubmitButton intent="save" label="Save" pendingLabel="Saving..." formAction={saveAction} />
+      <SubmitButton
+        intent="delete"
+        label="Delete"
+        pendingLabel="Deleting..."
+        formAction={deleteAction}
+        formNoValidate
+      />
+      <FormMessage state={saveState} field="text" />
+      <FormMessage state={deleteState} />
+    </form>
+  )
+}
+
+// `todos` is the saved list from the server, refreshed by revalidatePath after each action
+export function TodoList({ todos }: { todos: FormTodo[] }) {
+  return (
+    <>
+      <AddTodoForm />
+
+      <div>
+        <h3>Todos ({todos.length}):</h3>
+        {todos.length === 0 ? (
+          <p style={{ color: '#666', fontStyle: 'italic' }}>No todos yet. Add one above!</p>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', maxWidth: '700px' }}>
+            {todos.map((todo) => (
+              <TodoItem key={todo.id} todo={todo} />
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
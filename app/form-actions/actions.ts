@@ -0,0 +1,65 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { instrumentAction } from '../lib/action-log'
+import { simulateLatency } from '../lib/server-latency'
+import {
+  deleteTodoForm,
+  editTodoForm,
+  newTodoForm,
+  type DeleteTodoState,
+  type EditTodoState,
+  type NewTodoState,
+} from './schema'
+import { addTodo, clearTodos, deleteTodo, updateTodo } from './todos'
+
+// Long enough to see which button is pending
+const SAVE_DELAY_MS = 500
+
+const pause = () => simulateLatency(SAVE_DELAY_MS)
+
+// Each form's `action` parses and validates the FormData first, so the handlers
+// only see valid, typed values
+
+export const addTodoAction = instrumentAction(
+  'addTodoAction',
+  newTodoForm.action(async ({ text }): Promise<NewTodoState> => {
+    await pause()
+    await addTodo(text)
+    revalidatePath('/form-actions')
+    // The input starts empty again
+    return { ...newTodoForm.initialState, status: 'success' }
+  })
+)
+
+// The row's Save and Delete buttons submit the same form, so both actions get
+// the todo's ID from its hidden input
+export const updateTodoAction = instrumentAction(
+  'updateTodoAction',
+  editTodoForm.action(async (values): Promise<EditTodoState> => {
+    await pause()
+    if (!(await updateTodo(values.id, values.text))) {
+      return { status: 'error', message: 'Todo not found', values, fieldErrors: {} }
+    }
+    revalidatePath('/form-actions')
+    return { status: 'success', message: 'Saved', values, fieldErrors: {} }
+  })
+)
+
+export const deleteTodoAction = instrumentAction(
+  'deleteTodoAction',
+  deleteTodoForm.action(async (values): Promise<DeleteTodoState> => {
+    await pause()
+    if (!(await deleteTodo(values.id))) {
+      return { status: 'error', message: 'Todo not found', values, fieldErrors: {} }
+    }
+    revalidatePath('/form-actions')
+    return { status: 'success', values, fieldErrors: {} }
+  })
+)
+
+export const clearTodosAction = instrumentAction('clearTodosAction', async () => {
+  await pause()
+  await clearTodos()
+  revalidatePath('/form-actions')
+})
@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('form-actions')
+
+export default function FormActionsLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="form-actions">{children}</DemoShell>
+}
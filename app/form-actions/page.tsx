@@ -1,42 +1,18 @@
-'use client'
+import { connection } from 'next/server'
+import { SourceCode } from '../components/SourceCode'
+import { TodoList } from './TodoList'
+import { getTodos } from './todos'
+import actionSnippets from './actions.ts?names=updateTodoAction&source'
+import listSnippets from './TodoList.tsx?names=SubmitButton,TodoItem&source'
+import schemaSnippets from './schema.ts?names=editTodoForm&source'
+
+export default async function FormActionsDemo() {
+  // The todos are saved on the server; read them for every request
+  await connection()
+  const todos = await getTodos()
 
-import { useActionState } from 'react'
-import { useFormStatus } from 'react-dom'
-import Link from 'next/link'
-
-function SubmitButton() {
-  const { pending } = useFormStatus()
-  
   return (
-    <button type="submit" disabled={pending}>
-      {pending ? 'Adding...' : 'Add Todo'}
-    </button>
-  )
-}
-
-export default function FormActionsDemo() {
-  const [todos, setTodos] = useActionState<string[]>(
-    async (currentTodos: string[], formData: FormData) => {
-      const todo = formData.get('todo') as string
-      
-      // Simulate server delay
-      await new Promise((resolve) => setTimeout(resolve, 500))
-      
-      if (!todo.trim()) {
-        return currentTodos
-      }
-      
-      return [...currentTodos, todo]
-    },
-    []
-  )
-
-  return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>Form Actions Demo</h1>
 
       <div className="demo-section">
@@ -59,47 +35,16 @@ export default function FormActionsDemo() {
       <div className="demo-section">
         <h2>Interactive Demo</h2>
         <p>Add todos using the form below. The form action handles everything automatically!</p>
+        <p style={{ marginTop: '0.5rem' }}>
+          Each row is its own form with two submit buttons. <strong>Save</strong> and <strong>Delete</strong> pass
+          different server actions through the <code>formAction</code> prop, so one form goes to whichever action its
+          button names. The buttons also send <code>name=&quot;intent&quot;</code>, which lets{' '}
+          <code>useFormStatus</code> tell from the pending FormData which one was pressed. The todos are saved on the
+          server with stable IDs, so they survive a reload.
+        </p>
 
-        <form
-          action={setTodos}
-          style={{
-            display: 'flex',
-            gap: '0.5rem',
-            maxWidth: '500px',
-            marginBottom: '2rem',
-          }}
-        >
-          <input
-            name="todo"
-            type="text"
-            placeholder="Enter a todo..."
-            required
-            style={{ flex: 1 }}
-          />
-          <SubmitButton />
-        </form>
-
-        <div>
-          <h3>Todos ({todos.length}):</h3>
-          {todos.length === 0 ? (
-            <p style={{ color: '#666', fontStyle: 'italic' }}>No todos yet. Add one above!</p>
-          ) : (
-            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-              {todos.map((todo, index) => (
-                <div
-                  key={index}
-                  style={{
-                    padding: '0.75rem',
-                    background: 'var(--card-bg)',
-                    border: '1px solid var(--border)',
-                    borderRadius: '6px',
-                  }}
-                >
-                  {todo}
-                </div>
-              ))}
-            </div>
-          )}
+        <div style={{ marginTop: '1rem' }}>
+          <TodoList todos={todos} />
         </div>
       </div>
 
@@ -196,6 +141,14 @@ function MyForm() {
         </pre>
       </div>
 
+      <div className="demo-section">
+        <h2>Source of This Demo</h2>
+        <SourceCode snippet={listSnippets.SubmitButton} />
+        <SourceCode snippet={listSnippets.TodoItem} />
+        <SourceCode snippet={schemaSnippets.editTodoForm} />
+        <SourceCode snippet={actionSnippets.updateTodoAction} />
+      </div>
+
       <div className="demo-section">
         <h2>Form Action Patterns</h2>
 
@@ -304,6 +257,6 @@ function Form() {
           <li>Consider progressive enhancement</li>
         </ul>
       </div>
-    </div>
+    </>
   )
 }
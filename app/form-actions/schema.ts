@@ -0,0 +1,22 @@
+import { defineForm, type FormActionState } from '../lib/form-schema'
+
+// Each action gets its own form definition, since Save and Delete submit the
+// same row form but only Save needs the text. Delete ignores the fields it
+// doesn't declare.
+
+const text = { label: 'Todo', type: 'text', required: true, maxLength: 100 } as const
+
+// The row's hidden input; both row actions need it to find the todo
+const id = { label: 'Todo ID', type: 'hidden', required: true } as const
+
+export const newTodoForm = defineForm({ text })
+
+export const editTodoForm = defineForm({ id, text })
+
+export const deleteTodoForm = defineForm({ id })
+
+export type NewTodoState = FormActionState<typeof newTodoForm.schema>
+
+export type EditTodoState = FormActionState<typeof editTodoForm.schema>
+
+export type DeleteTodoState = FormActionState<typeof deleteTodoForm.schema>
@@ -0,0 +1,40 @@
+import type { SelfCheckPage, SelfCheckScenario } from '../lib/self-check'
+
+function findRow(page: SelfCheckPage, text: string) {
+  return Array.from(page.document.querySelectorAll<HTMLFormElement>('form[data-todo-id]')).find(
+    (row) => row.querySelector<HTMLInputElement>('input[name="text"]')?.value === text
+  )
+}
+
+function clickRowButton(page: SelfCheckPage, text: string, label: string) {
+  const button = Array.from(findRow(page, text)?.querySelectorAll('button') ?? []).find(
+    (button) => button.textContent === label
+  )
+  page.expect(button, `a ${label} button on "${text}"`)
+  button?.click()
+}
+
+// Adding appends a saved todo; each row's Save and Delete buttons go to their own
+// actions, and only the pressed button shows its pending label
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.click('Clear all')
+  await page.waitForText('Todos (0):')
+
+  await page.fill('input[name="text"]', 'Check the form action')
+  await page.click('Add Todo')
+  await page.waitForText('Adding...')
+  await page.waitForText('Todos (1):')
+  await page.waitFor('the new row', () => findRow(page, 'Check the form action'))
+
+  const input = findRow(page, 'Check the form action')?.querySelector<HTMLInputElement>('input[name="text"]')
+  await page.fill(`form[data-todo-id] input[aria-label="Edit \\"Check the form action\\""]`, 'Check formAction')
+  page.expect(input?.value === 'Check formAction', 'the row input to be edited')
+  clickRowButton(page, 'Check formAction', 'Save')
+  await page.waitForText('Saving...')
+  page.expect(!page.document.body.textContent?.includes('Deleting...'), 'only the Save button to be pending')
+  await page.waitForText('Saved')
+
+  clickRowButton(page, 'Check formAction', 'Delete')
+  await page.waitForText('Deleting...')
+  await page.waitForText('Todos (0):')
+}
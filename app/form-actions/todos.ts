@@ -0,0 +1,46 @@
+import { randomUUID } from 'crypto'
+import { createFileStore } from '../lib/file-store'
+
+export type FormTodo = {
+  // Stable across edits and deletes, so rows can be keyed and targeted by it
+  id: string
+  text: string
+}
+
+const store = createFileStore<FormTodo[]>('form-actions-todos', [])
+
+export function getTodos(): Promise<FormTodo[]> {
+  return store.read()
+}
+
+export async function addTodo(text: string): Promise<FormTodo> {
+  const todo = { id: randomUUID(), text }
+  await store.update((todos) => [...todos, todo])
+  return todo
+}
+
+// Both return false when no todo has that ID (e.g. it was deleted in another tab)
+export async function updateTodo(id: string, text: string): Promise<boolean> {
+  let found = false
+  await store.update((todos) =>
+    todos.map((todo) => {
+      if (todo.id !== id) return todo
+      found = true
+      return { ...todo, text }
+    })
+  )
+  return found
+}
+
+export async function deleteTodo(id: string): Promise<boolean> {
+  let found = false
+  await store.update((todos) => {
+    found = todos.some((todo) => todo.id === id)
+    return todos.filter((todo) => todo.id !== id)
+  })
+  return found
+}
+
+export async function clearTodos() {
+  await store.update(() => [])
+}
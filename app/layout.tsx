@@ -1,9 +1,16 @@
 import type { Metadata } from 'next'
 import './globals.css'
 import { ReactBuildVerifier } from './components/ReactBuildVerifier'
+import { AppChrome } from './components/AppChrome'
+import { ActionLogPanel } from './components/ActionLogPanel'
+import { MockNetworkPanel } from './components/MockNetworkPanel'
+import { RenderOverlayPanel } from './components/RenderOverlayPanel'
 
 export const metadata: Metadata = {
-  title: 'React 19.2 & Compiler v1.0 Demos',
+  title: {
+    default: 'React 19.2 & Compiler v1.0 Demos',
+    template: '%s | React 19.2 & Compiler v1.0 Demos',
+  },
   description: 'Comprehensive demos showcasing React 19.2, React Canary, and React Compiler v1.0 features',
 }
 
@@ -16,7 +23,12 @@ export default function RootLayout({
     <html lang="en">
       <body>
         {children}
-        <ReactBuildVerifier />
+        <AppChrome>
+          <MockNetworkPanel />
+          <RenderOverlayPanel />
+          <ReactBuildVerifier />
+          {process.env.NODE_ENV === 'development' && <ActionLogPanel />}
+        </AppChrome>
       </body>
     </html>
   )
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { DATA_DIR } from './file-store'
+
+// Records every call of a server action wrapped with instrumentAction(): how long
+// it took, the size of each FormData field and how it ended. Records are streamed
+// to ActionLogPanel via /dev/action-log and, in development, appended to
+// .data/action-log.jsonl (nothing rotates it, so production doesn't write it).
+
+export type ActionField = { name: string; kind: 'text' | 'file'; bytes: number }
+
+export type ActionInvocation = {
+  id: string
+  action: string
+  startedAt: string
+  durationMs: number
+  fields: ActionField[]
+  // returned_error: the action resolved with a `status: 'error'` state
+  outcome: 'success' | 'returned_error' | 'thrown'
+  error?: string
+}
+
+const LOG_FILE = path.join(DATA_DIR, 'action-log.jsonl')
+const MAX_RECENT = 100
+
+type ActionLog = {
+  recent: ActionInvocation[]
+  listeners: Set<(invocation: ActionInvocation) => void>
+}
+
+// Next.js bundles each route separately, so module state isn't shared between the
+// pages that run actions and the route handler that streams them; globalThis is.
+const globalForActionLog = globalThis as typeof globalThis & { __actionLog?: ActionLog }
+const log = (globalForActionLog.__actionLog ??= { recent: [], listeners: new Set() })
+
+export function getRecentInvocations(): ActionInvocation[] {
+  return log.recent
+}
+
+export function subscribeActionLog(listener: (invocation: ActionInvocation) => void) {
+  log.listeners.add(listener)
+  return () => {
+    log.listeners.delete(listener)
+  }
+}
+
+// Logging must never fail the action: this doesn't throw, even if a listener does
+function record(invocation: ActionInvocation) {
+  log.recent = [...log.recent, invocation].slice(-MAX_RECENT)
+  log.listeners.forEach((listener) => {
+    try {
+      listener(invocation)
+    } catch (error) {
+      console.error('[action-log] listener failed', error)
+    }
+  })
+
+  if (process.env.NODE_ENV !== 'development') return
+  fs.mkdir(DATA_DIR, { recursive: true })
+    .then(() => fs.appendFile(LOG_FILE, JSON.stringify(invocation) + '\n'))
+    .catch((error) => console.error('[action-log] could not write', LOG_FILE, error))
+}
+
+const encoder = new TextEncoder()
+
+function describeFields(formData: FormData): ActionField[] {
+  return Array.from(formData.entries(), ([name, value]) =>
+    typeof value === 'string'
+      ? { name, kind: 'text', bytes: encoder.encode(value).length }
+      : { name, kind: 'file', bytes: value.size }
+  )
+}
+
+// The action states in this app report failures as `{ status: 'error', message }`
+function returnedError(result: unknown): string | undefined {
+  if (typeof result !== 'object' || result === null) return undefined
+  const { status, message } = result as { status?: unknown; message?: unknown }
+  if (status === 'error') return typeof message === 'string' ? message : 'error'
+}
+
+// Wraps a server action without changing its signature. Export the result from a
+// 'use server' file: `export const save = instrumentAction('save', async (formData) => ...)`
+export function instrumentAction<Args extends unknown[], Result>(
+  name: string,
+  action: (...args: Args) => Promise<Result>
+): (...args: Args) => Promise<Result> {
+  return async (...args) => {
+    const startedAt = new Date().toISOString()
+    const start = performance.now()
+    // Form actions get FormData last; useActionState passes the previous state first
+    const formData = args.find((arg): arg is FormData => arg instanceof FormData)
+    const base = { id: randomUUID(), action: name, startedAt, fields: formData ? describeFields(formData) : [] }
+
+    let result: Result
+    try {
+      result = await action(...args)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      record({ ...base, durationMs: Math.round(performance.now() - start), outcome: 'thrown', error: message })
+      throw error
+    }
+
+    // Recorded outside the try, so only the action's own errors count as thrown
+    const error = returnedError(result)
+    record({ ...base, durationMs: Math.round(performance.now() - start), outcome: error ? 'returned_error' : 'success', error })
+    return result
+  }
+}
@@ -0,0 +1,10 @@
+// The compiler caches this constant JSX behind a memo-cache sentinel, which
+// survives minification, so its presence in the function source tells us the
+// React Compiler actually ran on this bundle.
+function CompilerProbe() {
+  return <span data-compiler-probe />
+}
+
+export function isReactCompilerActive() {
+  return CompilerProbe.toString().includes('react.memo_cache_sentinel')
+}
@@ -0,0 +1,54 @@
+import fs from 'fs'
+import path from 'path'
+import { demos } from './demos'
+
+// Routes with a page under app/ that are intentionally not in the demo registry
+const nonDemoRoutes = [
+  '/',
+  // Preview iframe for <Playground>
+  '/playground/frame',
+  // Runs every demo's scripted scenario
+  '/self-check',
+]
+
+const pageFile = /^page\.(tsx|ts|jsx|js)$/
+
+function collectPageRoutes(dir: string, route: string[]): string[] {
+  const routes: string[] = []
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isFile() && pageFile.test(entry.name)) {
+      routes.push('/' + route.join('/'))
+    } else if (entry.isDirectory() && !entry.name.startsWith('_')) {
+      // Route groups like (demos) don't add a URL segment
+      const segment = /^\(.*\)$/.test(entry.name) ? [] : [entry.name]
+      routes.push(...collectPageRoutes(path.join(dir, entry.name), [...route, ...segment]))
+    }
+  }
+
+  return routes
+}
+
+// Throws if the registry and the pages under app/ disagree. Called while the
+// home page is prerendered, so a mismatch fails `next build`.
+export function assertDemoRoutesRegistered() {
+  const pageRoutes = collectPageRoutes(path.join(process.cwd(), 'app'), [])
+  const registered = demos.map((demo) => demo.href as string)
+
+  const missingPages = registered.filter((href) => !pageRoutes.includes(href))
+  // Nested pages such as /server-actions/no-js belong to their parent demo
+  const unregistered = pageRoutes.filter(
+    (route) =>
+      !nonDemoRoutes.includes(route) &&
+      !registered.some((href) => route === href || route.startsWith(href + '/'))
+  )
+
+  const problems = [
+    ...missingPages.map((href) => `  ${href} is registered in app/lib/demos.ts but has no page`),
+    ...unregistered.map((route) => `  ${route} has a page but is not registered in app/lib/demos.ts`),
+  ]
+
+  if (problems.length > 0) {
+    throw new Error(`Demo registry is out of sync with app/:\n${problems.join('\n')}`)
+  }
+}
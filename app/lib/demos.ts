@@ -0,0 +1,288 @@
+import type { Metadata } from 'next'
+
+export type DemoId =
+  | 'use-hook'
+  | 'server-actions'
+  | 'bound-actions'
+  | 'use-optimistic'
+  | 'use-form-status'
+  | 'metadata'
+  | 'ref-as-prop'
+  | 'context-provider'
+  | 'asset-loading'
+  | 'react-compiler'
+  | 'form-actions'
+  | 'async-transitions'
+  | 'error-handling'
+  | 'view-transitions'
+  | 'activity'
+  | 'suspense-improvements'
+  | 'capture-owner-stack'
+  | 'use-effect-event'
+  | 'partial-pre-rendering'
+
+// Minimum React release a demo's feature needs
+export type ReactVersion = '19.0' | '19.1' | '19.2'
+
+export type Stability = 'stable' | 'canary' | 'experimental'
+
+export type Demo = {
+  id: DemoId
+  title: string
+  description: string
+  // One-line summary shown in the home page "Key Features Covered" list
+  highlight: string
+  href: `/${DemoId}`
+  tags: string[]
+  minReactVersion: ReactVersion
+  stability: Stability
+  related: DemoId[]
+}
+
+// Order here is the order demos appear on the home page
+export const demos: Demo[] = [
+  {
+    id: 'use-hook',
+    title: 'use Hook',
+    description: 'Demonstrates the new use() hook for reading promises and context values',
+    highlight: 'Read promises and context values directly in components',
+    href: '/use-hook',
+    tags: ['React 19', 'Hooks', 'Suspense'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['context-provider', 'suspense-improvements', 'async-transitions'],
+  },
+  {
+    id: 'server-actions',
+    title: 'Server Actions',
+    description: 'Form handling with Server Actions and useActionState',
+    highlight: 'Simplified form handling and data mutations',
+    href: '/server-actions',
+    tags: ['React 19', 'Server Components', 'Forms'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['form-actions', 'use-form-status', 'use-optimistic'],
+  },
+  {
+    id: 'bound-actions',
+    title: 'Bound Server Actions',
+    description: 'Pass record IDs to Server Actions with bind() and closures, and see what reaches the server',
+    highlight: 'Bound arguments, encrypted closures and authorization checks',
+    href: '/bound-actions',
+    tags: ['React 19', 'Server Components', 'Security'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['server-actions', 'form-actions', 'error-handling'],
+  },
+  {
+    id: 'use-optimistic',
+    title: 'useOptimistic Hook',
+    description: 'Optimistic UI updates for better user experience',
+    highlight: 'Optimistic UI updates for better UX',
+    href: '/use-optimistic',
+    tags: ['React 19', 'Hooks', 'UX'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['server-actions', 'async-transitions'],
+  },
+  {
+    id: 'use-form-status',
+    title: 'useFormStatus Hook',
+    description: 'Access form submission status in child components',
+    highlight: 'Access form state from child components',
+    href: '/use-form-status',
+    tags: ['React 19', 'Forms', 'Hooks'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['form-actions', 'server-actions'],
+  },
+  {
+    id: 'metadata',
+    title: 'Document Metadata',
+    description: 'Native support for title, meta, and link tags in components',
+    highlight: 'Native support for SEO tags',
+    href: '/metadata',
+    tags: ['React 19', 'SEO'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['asset-loading'],
+  },
+  {
+    id: 'ref-as-prop',
+    title: 'Ref as Prop',
+    description: 'Pass ref directly as a prop without forwardRef',
+    highlight: 'Simplified ref forwarding',
+    href: '/ref-as-prop',
+    tags: ['React 19', 'Refs'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['context-provider'],
+  },
+  {
+    id: 'context-provider',
+    title: 'Context as Provider',
+    description: 'Use Context directly as a provider without Context.Provider',
+    highlight: 'Cleaner context API',
+    href: '/context-provider',
+    tags: ['React 19', 'Context'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['use-hook', 'ref-as-prop'],
+  },
+  {
+    id: 'asset-loading',
+    title: 'Asset Loading',
+    description: 'Preload and manage stylesheet, font, and script loading',
+    highlight: 'Preload stylesheets, fonts, and scripts with precedence control',
+    href: '/asset-loading',
+    tags: ['React 19', 'Performance', 'Suspense'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['metadata', 'suspense-improvements'],
+  },
+  {
+    id: 'react-compiler',
+    title: 'React Compiler',
+    description: 'Automatic memoization and optimization with React Compiler v1.0',
+    highlight: 'Automatic memoization and optimization',
+    href: '/react-compiler',
+    tags: ['React Compiler', 'Performance', 'Optimization'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['activity', 'use-effect-event'],
+  },
+  {
+    id: 'form-actions',
+    title: 'Form Actions',
+    description: 'Built-in form action handling with automatic pending states',
+    highlight: 'Pass functions to the action prop with automatic pending states',
+    href: '/form-actions',
+    tags: ['React 19', 'Forms', 'Actions'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['server-actions', 'use-form-status'],
+  },
+  {
+    id: 'async-transitions',
+    title: 'Async Transitions',
+    description: 'useTransition with async functions and isPending state',
+    highlight: 'Non-blocking async updates with useTransition',
+    href: '/async-transitions',
+    tags: ['React 19', 'Hooks', 'Suspense'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['use-optimistic', 'use-hook', 'suspense-improvements'],
+  },
+  {
+    id: 'error-handling',
+    title: 'Error Handling',
+    description: 'Enhanced error handling with error boundaries and Server Actions',
+    highlight: 'Error boundaries with recovery and Server Action errors',
+    href: '/error-handling',
+    tags: ['React 19', 'Error Boundary'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['capture-owner-stack', 'server-actions'],
+  },
+  {
+    id: 'view-transitions',
+    title: 'View Transitions',
+    description: 'Smooth animations between UI states with the View Transitions API',
+    highlight: 'Smooth animations with native browser API',
+    href: '/view-transitions',
+    tags: ['React 19', 'Animations', 'UX'],
+    minReactVersion: '19.2',
+    stability: 'canary',
+    related: ['activity', 'async-transitions'],
+  },
+  {
+    id: 'activity',
+    title: '<Activity /> Component',
+    description: 'React 19.2 Activity component for controlled rendering with visible/hidden modes',
+    highlight: 'Controlled rendering with visible/hidden modes for better performance',
+    href: '/activity',
+    tags: ['React 19.2', 'Performance', 'State Management'],
+    minReactVersion: '19.2',
+    stability: 'stable',
+    related: ['view-transitions', 'suspense-improvements'],
+  },
+  {
+    id: 'suspense-improvements',
+    title: 'Suspense Improvements',
+    description: 'Compare React 18 vs React 19 Suspense behavior with immediate fallbacks and pre-warming',
+    highlight: 'Immediate fallbacks and pre-warming of suspended siblings',
+    href: '/suspense-improvements',
+    tags: ['React 19', 'Suspense', 'Performance', 'UX'],
+    minReactVersion: '19.0',
+    stability: 'stable',
+    related: ['use-hook', 'activity', 'partial-pre-rendering'],
+  },
+  {
+    id: 'capture-owner-stack',
+    title: 'captureOwnerStack()',
+    description: 'Capture component ownership stack for debugging and error tracking',
+    highlight: 'Component ownership stacks for debugging and error tracking',
+    href: '/capture-owner-stack',
+    tags: ['React 19', 'Debugging', 'DevTools'],
+    minReactVersion: '19.1',
+    stability: 'stable',
+    related: ['error-handling'],
+  },
+  {
+    id: 'use-effect-event',
+    title: 'useEffectEvent Hook',
+    description: 'Extract non-reactive logic from Effects to read latest values without re-triggering',
+    highlight: 'Read the latest props and state in Effects without re-running them',
+    href: '/use-effect-event',
+    tags: ['React 19', 'Hooks', 'Experimental'],
+    minReactVersion: '19.2',
+    stability: 'experimental',
+    related: ['react-compiler'],
+  },
+  {
+    id: 'partial-pre-rendering',
+    title: 'Partial Pre-rendering',
+    description: 'Pre-render static parts and resume dynamic parts for optimal performance',
+    highlight: 'Pre-render static parts and resume dynamic parts for optimal SSR performance',
+    href: '/partial-pre-rendering',
+    tags: ['React 19.2', 'SSR', 'Performance', 'CDN'],
+    minReactVersion: '19.2',
+    stability: 'stable',
+    related: ['suspense-improvements', 'asset-loading'],
+  },
+]
+
+export function getDemo(id: DemoId): Demo {
+  const demo = demos.find((d) => d.id === id)
+  if (!demo) {
+    throw new Error(`Unknown demo: ${id}`)
+  }
+  return demo
+}
+
+export function getRelatedDemos(demo: Demo): Demo[] {
+  return demo.related.map(getDemo)
+}
+
+// Route metadata for a demo segment; used by each demo's layout.tsx
+export function demoMetadata(id: DemoId): Metadata {
+  const demo = getDemo(id)
+  return {
+    title: demo.title,
+    description: demo.description,
+  }
+}
+
+// Every tag used by at least one demo, in first-seen order
+export function getAllTags(): string[] {
+  return Array.from(new Set(demos.flatMap((demo) => demo.tags)))
+}
+
+// Neighbours in home page order, used for previous/next navigation
+export function getAdjacentDemos(id: DemoId): { previous?: Demo; next?: Demo } {
+  const index = demos.findIndex((d) => d.id === id)
+  return {
+    previous: index > 0 ? demos[index - 1] : undefined,
+    next: index < demos.length - 1 ? demos[index + 1] : undefined,
+  }
+}
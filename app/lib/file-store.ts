@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { cookies } from 'next/headers'
+import { SELF_CHECK_COOKIE } from './self-check'
+
+// Local stand-in for a database: each store is one JSON file under .data/
+// (git-ignored). Server-only; import it from Server Components and actions.
+
+export const DATA_DIR = path.join(process.cwd(), '.data')
+
+// Requests from a /self-check run get their own copy of every store, which the
+// runner deletes when it's done, so scenarios never touch the real records
+export const SELF_CHECK_DATA_DIR = path.join(DATA_DIR, 'self-check')
+
+// The data directory for the current request; also for files stored outside a FileStore
+export async function storeDir() {
+  try {
+    return (await cookies()).has(SELF_CHECK_COOKIE) ? SELF_CHECK_DATA_DIR : DATA_DIR
+  } catch {
+    // Outside a request, e.g. while building, there are no cookies
+    return DATA_DIR
+  }
+}
+
+export type FileStore<T> = {
+  read(): Promise<T>
+  update(updater: (data: T) => T | Promise<T>): Promise<T>
+}
+
+export function createFileStore<T>(name: string, initial: T): FileStore<T> {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function readFrom(file: string): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as T
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return initial
+      throw error
+    }
+  }
+
+  async function read(): Promise<T> {
+    return readFrom(path.join(await storeDir(), `${name}.json`))
+  }
+
+  // Updates run one at a time so concurrent actions don't overwrite each other
+  function update(updater: (data: T) => T | Promise<T>): Promise<T> {
+    // Resolved now, while this request's cookies are at hand
+    const dir = storeDir()
+    const result = queue.then(async () => {
+      const file = path.join(await dir, `${name}.json`)
+      const data = await updater(await readFrom(file))
+      await fs.mkdir(await dir, { recursive: true })
+      // Write to a temp file first so a crash never leaves half a JSON document
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(data, null, 2))
+      await fs.rename(`${file}.tmp`, file)
+      return data
+    })
+    queue = result.catch(() => {})
+    return result
+  }
+
+  return { read, update }
+}
@@ -0,0 +1,15 @@
+// Field names and error shape shared by protected forms (client) and the
+// server-side checks in spam-check.ts and rate-limit.ts
+
+export const HONEYPOT_FIELD = 'website'
+export const FORM_TOKEN_FIELD = 'formToken'
+
+// The form token must be at least this old: faster than a person could fill the form in
+export const MIN_SUBMIT_MS = 2000
+
+// Structured so the UI can react to the code, e.g. show a retry countdown
+export type SubmissionError = {
+  code: 'spam' | 'too_fast' | 'expired' | 'rate_limited'
+  message: string
+  retryAfterSeconds?: number
+}
@@ -0,0 +1,113 @@
+// Typed form schemas. One definition gives a form action its parsing and
+// validation, and gives the rendered form the matching input attributes, so
+// the browser's checks and the server's never drift apart. No server-only
+// imports: client components use the attributes, actions use the rest.
+
+export type FieldRule = {
+  label: string
+  type: 'text' | 'email' | 'textarea' | 'hidden'
+  required?: boolean
+  minLength?: number
+  maxLength?: number
+}
+
+export type FormSchema = Record<string, FieldRule>
+
+export type FormField<S extends FormSchema> = keyof S & string
+
+// Every field as a trimmed string; missing fields are ''
+export type FormValues<S extends FormSchema> = Record<FormField<S>, string>
+
+// `Extra` names errors for inputs outside the schema, such as file uploads
+export type FieldErrors<S extends FormSchema, Extra extends string = never> = Partial<
+  Record<FormField<S> | Extra, string>
+>
+
+export type FormActionState<S extends FormSchema, Extra extends string = never> = {
+  status: 'idle' | 'success' | 'error'
+  message?: string
+  // What the user submitted, so the form can be refilled after React resets it
+  values: FormValues<S>
+  fieldErrors: FieldErrors<S, Extra>
+}
+
+export type FormDefinition<S extends FormSchema> = {
+  schema: S
+  fields: FormField<S>[]
+  initialState: FormActionState<S>
+  parse(formData: FormData): { values: FormValues<S>; fieldErrors: FieldErrors<S> }
+  attributes(
+    field: FormField<S>,
+    id?: string
+  ): {
+    id: string
+    name: string
+    type?: Exclude<FieldRule['type'], 'textarea'>
+    required?: boolean
+    minLength?: number
+    maxLength?: number
+  }
+  action<State extends FormActionState<S, string> = FormActionState<S>>(
+    handle: (values: FormValues<S>, formData: FormData, prevState: State) => Promise<State>
+  ): (prevState: State, formData: FormData) => Promise<State>
+}
+
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function validateField(rule: FieldRule, value: string): string | undefined {
+  if (!value) return rule.required ? `${rule.label} is required` : undefined
+  if (rule.minLength && value.length < rule.minLength) {
+    return `${rule.label} must be at least ${rule.minLength} characters`
+  }
+  if (rule.maxLength && value.length > rule.maxLength) {
+    return `${rule.label} must be at most ${rule.maxLength} characters`
+  }
+  if (rule.type === 'email' && !emailPattern.test(value)) {
+    return 'Please enter a valid email address'
+  }
+}
+
+export function defineForm<const S extends FormSchema>(schema: S): FormDefinition<S> {
+  const fields = Object.keys(schema) as FormField<S>[]
+  const emptyValues = Object.fromEntries(fields.map((field) => [field, ''])) as FormValues<S>
+
+  function parse(formData: FormData) {
+    const values = {} as FormValues<S>
+    const fieldErrors: FieldErrors<S> = {}
+
+    for (const field of fields) {
+      const value = formData.get(field)
+      values[field] = typeof value === 'string' ? value.trim() : ''
+      const error = validateField(schema[field], values[field])
+      if (error) fieldErrors[field] = error
+    }
+
+    return { values, fieldErrors }
+  }
+
+  return {
+    schema,
+    fields,
+    initialState: { status: 'idle', values: emptyValues, fieldErrors: {} },
+    parse,
+
+    // The browser-side counterpart of the rules. `id` defaults to the field's
+    // name; pass one when the form is rendered more than once on a page.
+    attributes(field, id = field) {
+      const { type, required, minLength, maxLength } = schema[field]
+      return { id, name: field, ...(type !== 'textarea' && { type }), required, minLength, maxLength }
+    },
+
+    // `handle` only runs with valid input. Otherwise the action returns the field
+    // errors and the submitted values, keeping the rest of the previous state.
+    action(handle) {
+      return async (prevState, formData) => {
+        const { values, fieldErrors } = parse(formData)
+        if (Object.keys(fieldErrors).length > 0) {
+          return { ...prevState, status: 'error', message: 'Please fix the highlighted fields', values, fieldErrors }
+        }
+        return handle(values, formData, prevState)
+      }
+    },
+  }
+}
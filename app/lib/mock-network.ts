@@ -0,0 +1,144 @@
+// Shared fake network used by every demo that simulates a server call.
+// Latency, jitter and failure rate can be tuned globally or per endpoint from
+// the MockNetworkPanel; settings are persisted in localStorage. A
+// ?mock-latency=<ms> query parameter overrides them for that page load
+// (used by /self-check to run demos quickly and deterministically).
+
+export type NetworkSettings = {
+  latency?: number
+  jitter?: number
+  // 0..1 probability that a request fails
+  errorRate?: number
+}
+
+export type MockNetworkConfig = {
+  global: NetworkSettings
+  endpoints: Record<string, NetworkSettings>
+}
+
+export type Endpoint = {
+  name: string
+  defaultLatency: number
+}
+
+export class MockNetworkError extends Error {
+  constructor(public endpoint: string) {
+    super(`Mock request to "${endpoint}" failed`)
+    this.name = 'MockNetworkError'
+  }
+}
+
+const STORAGE_KEY = 'mock-network-config'
+const LATENCY_PARAM = 'mock-latency'
+
+const emptyConfig: MockNetworkConfig = { global: {}, endpoints: {} }
+
+let config: MockNetworkConfig | null = null
+let endpoints: Endpoint[] = []
+const listeners = new Set<() => void>()
+
+function notify() {
+  listeners.forEach((listener) => listener())
+}
+
+function readStoredConfig(): MockNetworkConfig {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored ? { ...emptyConfig, ...JSON.parse(stored) } : emptyConfig
+  } catch {
+    return emptyConfig
+  }
+}
+
+function readUrlOverride(): MockNetworkConfig | null {
+  const param = new URLSearchParams(window.location.search).get(LATENCY_PARAM)
+  if (param === null || Number.isNaN(Number(param))) return null
+  return { global: { latency: Number(param), jitter: 0, errorRate: 0 }, endpoints: {} }
+}
+
+export function getMockNetworkConfig(): MockNetworkConfig {
+  if (typeof window === 'undefined') return emptyConfig
+  if (!config) config = readUrlOverride() ?? readStoredConfig()
+  return config
+}
+
+export function getServerMockNetworkConfig(): MockNetworkConfig {
+  return emptyConfig
+}
+
+export function setMockNetworkConfig(next: MockNetworkConfig) {
+  config = next
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed frames); keep the in-memory copy
+  }
+  notify()
+}
+
+export function getEndpoints(): Endpoint[] {
+  return endpoints
+}
+
+export function subscribeMockNetwork(listener: () => void) {
+  listeners.add(listener)
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return
+    config = readStoredConfig()
+    listener()
+  }
+  window.addEventListener('storage', onStorage)
+
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', onStorage)
+  }
+}
+
+function registerEndpoint(name: string, defaultLatency: number) {
+  if (endpoints.some((e) => e.name === name)) return
+  endpoints = [...endpoints, { name, defaultLatency }]
+  // Requests are often started during render; don't update the panel synchronously
+  queueMicrotask(notify)
+}
+
+// Effective settings for an endpoint: per-endpoint override, then global, then the endpoint default
+export function resolveSettings(name: string, defaultLatency: number): Required<NetworkSettings> {
+  const { global, endpoints: overrides } = getMockNetworkConfig()
+  const own = overrides[name] ?? {}
+
+  return {
+    latency: own.latency ?? global.latency ?? defaultLatency,
+    jitter: own.jitter ?? global.jitter ?? 0,
+    errorRate: own.errorRate ?? global.errorRate ?? 0,
+  }
+}
+
+// Simulates a request to `endpoint`. `respond` receives the latency that was
+// actually applied and produces the response body; if it throws, the request rejects.
+export function mockRequest<T>(
+  endpoint: string,
+  defaultLatency: number,
+  respond: (latency: number) => T
+): Promise<T> {
+  registerEndpoint(endpoint, defaultLatency)
+
+  const { latency, jitter, errorRate } = resolveSettings(endpoint, defaultLatency)
+  const actualLatency = Math.max(0, Math.round(latency + (Math.random() * 2 - 1) * jitter))
+  const fails = Math.random() < errorRate
+
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      if (fails) {
+        reject(new MockNetworkError(endpoint))
+        return
+      }
+      try {
+        resolve(respond(actualLatency))
+      } catch (error) {
+        reject(error)
+      }
+    }, actualLatency)
+  })
+}
@@ -0,0 +1,22 @@
+import { transform } from 'sucrase'
+
+// Messages exchanged between <Playground> and the sandboxed /playground/frame page
+export type PlaygroundMessage =
+  | { type: 'ready' }
+  | { type: 'run'; code: string }
+  | { type: 'rendered' }
+  | { type: 'error'; message: string }
+
+// Compiles TSX to CommonJS in the browser; the frame evaluates the result
+export function compileSnippet(source: string): { code: string } | { error: string } {
+  try {
+    const { code } = transform(source, {
+      transforms: ['typescript', 'jsx', 'imports'],
+      jsxRuntime: 'automatic',
+      production: true,
+    })
+    return { code }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) }
+  }
+}
@@ -0,0 +1,135 @@
+import type { ProfilerOnRenderCallback } from 'react'
+
+// In-app replacement for the DevTools Profiler tab. Every demo is wrapped in
+// <Profiler onRender={recordCommit}> (see DemoShell); while recording, each
+// callback is stored and shown in the ProfilerPanel. Sessions export to JSON
+// so runs can be compared, e.g. with the React Compiler on and off.
+
+export type CommitRecord = {
+  // Profiler id, i.e. which subtree committed
+  id: string
+  phase: 'mount' | 'update' | 'nested-update'
+  actualDuration: number
+  baseDuration: number
+  startTime: number
+  commitTime: number
+}
+
+export type ProfilerSession = {
+  version: 1
+  label: string
+  recordedAt: string
+  page: string
+  reactVersion: string
+  reactCompiler: boolean
+  commits: CommitRecord[]
+}
+
+export type SessionSummary = {
+  commits: number
+  totalActual: number
+  averageActual: number
+  maxActual: number
+  totalBase: number
+}
+
+type RecorderState = {
+  recording: boolean
+  commits: CommitRecord[]
+  comparison: ProfilerSession | null
+}
+
+let state: RecorderState = { recording: false, commits: [], comparison: null }
+const listeners = new Set<() => void>()
+
+function setState(next: Partial<RecorderState>) {
+  state = { ...state, ...next }
+  // onRender runs during React's commit phase; update the panel afterwards
+  queueMicrotask(() => listeners.forEach((listener) => listener()))
+}
+
+export function subscribeRecorder(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getRecorderState(): RecorderState {
+  return state
+}
+
+export const recordCommit: ProfilerOnRenderCallback = (
+  id,
+  phase,
+  actualDuration,
+  baseDuration,
+  startTime,
+  commitTime
+) => {
+  if (!state.recording) return
+  setState({
+    commits: [...state.commits, { id, phase, actualDuration, baseDuration, startTime, commitTime }],
+  })
+}
+
+export function startRecording() {
+  setState({ recording: true, commits: [] })
+}
+
+export function stopRecording() {
+  setState({ recording: false })
+}
+
+export function setComparison(session: ProfilerSession | null) {
+  setState({ comparison: session })
+}
+
+// Nested Profilers report the same commit separately; group them by commit time
+export function groupByCommit(commits: CommitRecord[]): CommitRecord[][] {
+  const groups = new Map<number, CommitRecord[]>()
+  for (const commit of commits) {
+    groups.set(commit.commitTime, [...(groups.get(commit.commitTime) ?? []), commit])
+  }
+  return Array.from(groups.values())
+}
+
+// The outermost Profiler covers the whole commit; its base duration is the largest
+export function outermostCommit(group: CommitRecord[]): CommitRecord {
+  return group.reduce((a, b) => (b.baseDuration > a.baseDuration ? b : a))
+}
+
+export function summarize(commits: CommitRecord[]): SessionSummary {
+  // Only the outermost Profiler of each commit, so nested subtrees aren't counted twice
+  const outermost = groupByCommit(commits).map(outermostCommit)
+  const totalActual = outermost.reduce((sum, c) => sum + c.actualDuration, 0)
+
+  return {
+    commits: outermost.length,
+    totalActual,
+    averageActual: outermost.length > 0 ? totalActual / outermost.length : 0,
+    maxActual: Math.max(0, ...outermost.map((c) => c.actualDuration)),
+    totalBase: outermost.reduce((sum, c) => sum + c.baseDuration, 0),
+  }
+}
+
+export function createSession(
+  label: string,
+  details: Pick<ProfilerSession, 'page' | 'reactVersion' | 'reactCompiler'>
+): ProfilerSession {
+  return {
+    version: 1,
+    label,
+    recordedAt: new Date().toISOString(),
+    ...details,
+    commits: state.commits,
+  }
+}
+
+export function parseSession(json: string): ProfilerSession {
+  const data = JSON.parse(json)
+  if (data?.version !== 1 || !Array.isArray(data.commits)) {
+    throw new Error('Not a profiler session exported from this app')
+  }
+  return data as ProfilerSession
+}
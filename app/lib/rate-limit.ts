@@ -0,0 +1,84 @@
+import { cookies, headers } from 'next/headers'
+import type { SubmissionError } from './form-protection'
+import { SELF_CHECK_COOKIE } from './self-check'
+
+// Per-client rate limiting for server actions. `RateLimiter` is the extension
+// point; the in-memory token bucket below is enough for a single local server.
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number; capacity: number }
+  | { allowed: false; remaining: 0; capacity: number; retryAfterSeconds: number }
+
+export type RateLimiter = {
+  consume(key: string): RateLimitResult | Promise<RateLimitResult>
+}
+
+type Bucket = { tokens: number; updatedAt: number }
+
+// Every client starts with `capacity` tokens and gets one back every `refillIntervalMs`.
+// At most `maxClients` buckets are kept; the least recently used go first.
+export function createTokenBucketLimiter({
+  capacity,
+  refillIntervalMs,
+  maxClients = 10_000,
+}: {
+  capacity: number
+  refillIntervalMs: number
+  maxClients?: number
+}): RateLimiter {
+  // In least recently used order: each consume moves its bucket to the end
+  const buckets = new Map<string, Bucket>()
+  const refillMs = capacity * refillIntervalMs
+
+  function save(key: string, bucket: Bucket) {
+    buckets.delete(key)
+    buckets.set(key, bucket)
+
+    // A bucket idle long enough to refill is the same as no bucket, so it can go
+    for (const [oldKey, oldBucket] of buckets) {
+      if (buckets.size <= maxClients && bucket.updatedAt - oldBucket.updatedAt < refillMs) break
+      buckets.delete(oldKey)
+    }
+  }
+
+  return {
+    consume(key) {
+      const now = Date.now()
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now }
+      const refilled = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) / refillIntervalMs)
+
+      if (refilled < 1) {
+        save(key, { tokens: refilled, updatedAt: now })
+        const retryAfterSeconds = Math.ceil(((1 - refilled) * refillIntervalMs) / 1000)
+        return { allowed: false, remaining: 0, capacity, retryAfterSeconds }
+      }
+
+      save(key, { tokens: refilled - 1, updatedAt: now })
+      return { allowed: true, remaining: Math.floor(refilled - 1), capacity }
+    },
+  }
+}
+
+// Identifies the client by IP. The forwarding headers are only read behind a proxy
+// that sets them (TRUST_PROXY=true): otherwise any client could send a new address
+// with every request. Without one, all clients share the 'local' bucket.
+// A /self-check run has a bucket of its own, named by its cookie, so runs
+// don't use up each other's submissions or the real clients'.
+export async function getClientKey(): Promise<string> {
+  const selfCheckRun = (await cookies()).get(SELF_CHECK_COOKIE)?.value
+  if (selfCheckRun) return `self-check:${selfCheckRun}`
+  if (process.env.TRUST_PROXY !== 'true') return 'local'
+
+  const requestHeaders = await headers()
+  // The proxy appends the address it saw; entries before it come from the client
+  const forwarded = requestHeaders.get('x-forwarded-for')?.split(',').at(-1)?.trim()
+  return requestHeaders.get('x-real-ip') || forwarded || 'local'
+}
+
+export function rateLimitedError(retryAfterSeconds: number): SubmissionError {
+  return {
+    code: 'rate_limited',
+    message: `Too many submissions. Retry in ${retryAfterSeconds}s.`,
+    retryAfterSeconds,
+  }
+}
@@ -0,0 +1,75 @@
+// Store behind the render overlay: per-component commit counts plus the global
+// on/off switch (persisted in localStorage). Counting is skipped while disabled.
+
+const STORAGE_KEY = 'render-overlay-enabled'
+
+let enabled: boolean | null = null
+let counts: Record<string, number> = {}
+const listeners = new Set<() => void>()
+
+function notify() {
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeRenderTracker(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function isRenderOverlayEnabled(): boolean {
+  if (typeof window === 'undefined') return false
+  if (enabled === null) {
+    try {
+      enabled = window.localStorage.getItem(STORAGE_KEY) === '1'
+    } catch {
+      enabled = false
+    }
+  }
+  return enabled
+}
+
+export function setRenderOverlayEnabled(next: boolean) {
+  enabled = next
+  try {
+    window.localStorage.setItem(STORAGE_KEY, next ? '1' : '0')
+  } catch {
+    // Not persisted, still applies to this page
+  }
+  document.documentElement.classList.toggle('render-overlay', next)
+  if (!next) counts = {}
+  notify()
+}
+
+export function getRenderCounts(): Record<string, number> {
+  return counts
+}
+
+export function resetRenderCounts() {
+  counts = {}
+  notify()
+}
+
+// Records one commit of `name`; returns the new count, or null when disabled
+export function recordRender(name: string): number | null {
+  if (!isRenderOverlayEnabled()) return null
+
+  const count = (counts[name] ?? 0) + 1
+  counts = { ...counts, [name]: count }
+  // Called from effects and Profiler callbacks; let React finish the commit first
+  queueMicrotask(notify)
+  return count
+}
+
+// Shows the count on the element and restarts its flash animation
+export function flashElement(element: HTMLElement | null, count: number | null) {
+  if (!element || count === null) return
+
+  element.dataset.renderCount = String(count)
+  element.classList.add('render-tracked')
+  element.classList.remove('render-flash')
+  // Force a reflow so re-adding the class restarts the animation
+  void element.offsetWidth
+  element.classList.add('render-flash')
+}
@@ -0,0 +1,151 @@
+// Scripted smoke tests behind /self-check. Every demo exports a scenario from
+// its own folder (self-check.ts); the runner loads the demo in an iframe with
+// the mock network sped up and drives it through the DOM like a user would.
+
+export const SELF_CHECK_LATENCY = 100
+
+// Set while the runner plays scenarios. Server stores read it and keep that run's
+// records apart from the real ones (see file-store.ts).
+export const SELF_CHECK_COOKIE = 'self-check'
+const DEFAULT_TIMEOUT = 5000
+const POLL_INTERVAL = 25
+
+// Text targets: a string matches by substring (exactly, for click), a RegExp by test
+export type TextMatcher = string | RegExp
+
+export type SelfCheckPage = {
+  document: Document
+  click(text: TextMatcher): Promise<void>
+  fill(selector: string, value: string): Promise<void>
+  waitForText(text: TextMatcher, timeout?: number): Promise<HTMLElement>
+  waitForNoText(text: TextMatcher, timeout?: number): Promise<void>
+  waitForElement<T extends HTMLElement = HTMLElement>(selector: string, timeout?: number): Promise<T>
+  waitFor<T>(description: string, check: () => T | null | undefined | false, timeout?: number): Promise<T>
+  expect(condition: unknown, message: string): void
+  skip(reason: string): never
+}
+
+export type SelfCheckScenario = (page: SelfCheckPage) => Promise<void>
+
+export class SelfCheckSkip extends Error {
+  constructor(reason: string) {
+    super(reason)
+    this.name = 'SelfCheckSkip'
+  }
+}
+
+export function selfCheckUrl(href: string) {
+  return `${href}?mock-latency=${SELF_CHECK_LATENCY}`
+}
+
+function describe(text: TextMatcher) {
+  return typeof text === 'string' ? `"${text}"` : String(text)
+}
+
+function isVisible(element: Element) {
+  return element.getClientRects().length > 0
+}
+
+// React attaches its props to DOM nodes during hydration; before that, clicks are lost
+function isHydrated(element: Element) {
+  return Object.keys(element).some((key) => key.startsWith('__reactProps$'))
+}
+
+// Deepest visible elements whose text matches, ignoring code samples
+function findByText(document: Document, text: TextMatcher, exact: boolean): HTMLElement[] {
+  const matches = (element: Element) => {
+    const content = element.textContent?.trim() ?? ''
+    if (typeof text !== 'string') return text.test(content)
+    return exact ? content === text : content.includes(text)
+  }
+
+  return Array.from(document.body.querySelectorAll<HTMLElement>('*')).filter(
+    (element) =>
+      matches(element) &&
+      !element.closest('code, .source-code, script, style') &&
+      isVisible(element) &&
+      !Array.from(element.children).some(matches)
+  )
+}
+
+export function createSelfCheckPage(frame: HTMLIFrameElement, onStep: (step: string) => void): SelfCheckPage {
+  const doc = () => {
+    if (!frame.contentDocument) throw new Error('Demo frame is not loaded')
+    return frame.contentDocument
+  }
+
+  const waitFor = <T>(description: string, check: () => T | null | undefined | false, timeout = DEFAULT_TIMEOUT) =>
+    new Promise<T>((resolve, reject) => {
+      const deadline = performance.now() + timeout
+      const poll = () => {
+        try {
+          const result = check()
+          if (result) return resolve(result)
+        } catch (error) {
+          return reject(error)
+        }
+        if (performance.now() > deadline) {
+          return reject(new Error(`Timed out after ${timeout}ms waiting for ${description}`))
+        }
+        setTimeout(poll, POLL_INTERVAL)
+      }
+      poll()
+    })
+
+  return {
+    get document() {
+      return doc()
+    },
+
+    async click(text) {
+      onStep(`click ${describe(text)}`)
+      const target = await waitFor(`${describe(text)} to be clickable`, () =>
+        findByText(doc(), text, true).find(
+          (element) => isHydrated(element) && !element.closest('button:disabled, fieldset:disabled')
+        )
+      )
+      target.click()
+    },
+
+    async fill(selector, value) {
+      onStep(`fill ${selector} with "${value}"`)
+      const input = await waitFor(`${selector} to be editable`, () =>
+        Array.from(doc().querySelectorAll<HTMLInputElement>(selector)).find(
+          (element) => isVisible(element) && isHydrated(element) && !element.disabled
+        )
+      )
+      // Go through the native setter so React's change tracking sees the new value
+      Object.getOwnPropertyDescriptor(Object.getPrototypeOf(input), 'value')?.set?.call(input, value)
+      input.dispatchEvent(new Event('input', { bubbles: true }))
+    },
+
+    waitForText(text, timeout) {
+      onStep(`wait for ${describe(text)}`)
+      return waitFor(describe(text), () => findByText(doc(), text, false)[0], timeout)
+    },
+
+    async waitForNoText(text, timeout) {
+      onStep(`wait for ${describe(text)} to disappear`)
+      await waitFor(`${describe(text)} to disappear`, () => findByText(doc(), text, false).length === 0, timeout)
+    },
+
+    waitForElement<T extends HTMLElement>(selector: string, timeout?: number) {
+      onStep(`wait for ${selector}`)
+      return waitFor(selector, () => Array.from(doc().querySelectorAll<T>(selector)).find(isVisible), timeout)
+    },
+
+    waitFor(description, check, timeout) {
+      onStep(`wait for ${description}`)
+      return waitFor(description, check, timeout)
+    },
+
+    expect(condition, message) {
+      onStep(`expect ${message}`)
+      if (!condition) throw new Error(`Expected ${message}`)
+    },
+
+    skip(reason) {
+      throw new SelfCheckSkip(reason)
+    },
+  }
+}
@@ -0,0 +1,15 @@
+import { cookies } from 'next/headers'
+import { SELF_CHECK_COOKIE, SELF_CHECK_LATENCY } from './self-check'
+
+// Server actions pause to make pending states visible. The mock network panel
+// can't reach them, so a /self-check run (marked by its cookie) gets the same
+// short latency it gives the mock network instead of the demo's delay.
+export async function simulateLatency(ms: number) {
+  let delay = ms
+  try {
+    if ((await cookies()).has(SELF_CHECK_COOKIE)) delay = Math.min(ms, SELF_CHECK_LATENCY)
+  } catch {
+    // Outside a request there are no cookies
+  }
+  await new Promise((resolve) => setTimeout(resolve, delay))
+}
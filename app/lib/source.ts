@@ -0,0 +1,71 @@
+// A top-level declaration extracted from a file by loaders/source-loader.js
+export type SourceSnippet = {
+  name: string
+  file: string
+  startLine: number
+  code: string
+}
+
+export type TokenType = 'comment' | 'string' | 'keyword' | 'number' | 'tag' | 'plain'
+
+export type Token = {
+  type: TokenType
+  text: string
+}
+
+const keywords = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'else',
+  'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in',
+  'interface', 'let', 'new', 'null', 'of', 'return', 'static', 'switch', 'this', 'throw', 'true',
+  'try', 'type', 'typeof', 'undefined', 'var', 'while',
+]
+
+// Groups: 1 comment, 2 string, 3 JSX tag opener, 4 tag name, 5 number, 6 keyword
+const tokenPattern = new RegExp(
+  [
+    String.raw`(\/\/[^\n]*|\/\*[\s\S]*?\*\/)`,
+    String.raw`('(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|` + '`' + String.raw`(?:\\.|[^` + '`' + String.raw`\\])*` + '`)',
+    String.raw`(<\/?)([A-Za-z][\w.]*)`,
+    String.raw`\b(\d+(?:\.\d+)?)\b`,
+    String.raw`\b(${keywords.join('|')})\b`,
+  ].join('|'),
+  'g'
+)
+
+// Small regex highlighter for TS/JSX; good enough for demo snippets, not a parser
+export function tokenize(code: string): Token[] {
+  const tokens: Token[] = []
+  let last = 0
+
+  for (const match of Array.from(code.matchAll(tokenPattern))) {
+    const index = match.index ?? 0
+    if (index > last) tokens.push({ type: 'plain', text: code.slice(last, index) })
+
+    if (match[1]) tokens.push({ type: 'comment', text: match[1] })
+    else if (match[2]) tokens.push({ type: 'string', text: match[2] })
+    else if (match[4]) {
+      tokens.push({ type: 'plain', text: match[3] })
+      tokens.push({ type: 'tag', text: match[4] })
+    } else if (match[5]) tokens.push({ type: 'number', text: match[5] })
+    else tokens.push({ type: 'keyword', text: match[6] })
+
+    last = index + match[0].length
+  }
+
+  if (last < code.length) tokens.push({ type: 'plain', text: code.slice(last) })
+  return tokens
+}
+
+// Tokens split per line; multi-line comments and template strings are broken up
+export function tokenizeLines(code: string): Token[][] {
+  const lines: Token[][] = [[]]
+
+  for (const token of tokenize(code)) {
+    token.text.split('\n').forEach((text, i) => {
+      if (i > 0) lines.push([])
+      if (text) lines[lines.length - 1].push({ type: token.type, text })
+    })
+  }
+
+  return lines
+}
@@ -0,0 +1,84 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { FORM_TOKEN_FIELD, HONEYPOT_FIELD, MIN_SUBMIT_MS, type SubmissionError } from './form-protection'
+
+// Spam checks for public forms, no CAPTCHA service needed:
+// - a honeypot field that people never see but naive bots fill in
+// - a signed render timestamp, so a form submitted faster than a human
+//   could fill it (or with a forged/expired token) is rejected
+// - a nonce in that token, so each rendered form can only be submitted once
+
+const MAX_TOKEN_AGE_MS = 60 * 60 * 1000
+
+// Per server process; set FORM_TOKEN_SECRET to keep tokens valid across restarts
+const secret = process.env.FORM_TOKEN_SECRET ?? randomBytes(32).toString('hex')
+
+// Nonce -> when its token expires. Tokens past that are rejected anyway, so their
+// entries are dropped; per server process, like the secret.
+const usedNonces = new Map<string, number>()
+
+function sign(payload: string) {
+  return createHmac('sha256', secret).update(payload).digest('hex')
+}
+
+// Rendered into the form as a hidden field; create it while rendering the page per request
+export function createFormToken(): string {
+  const payload = `${Date.now()}.${randomBytes(16).toString('hex')}`
+  return `${payload}.${sign(payload)}`
+}
+
+function readToken(formData: FormData) {
+  const [issuedAt = '', nonce = '', signature = ''] = String(formData.get(FORM_TOKEN_FIELD) ?? '').split('.')
+  return { issuedAt, nonce, signature }
+}
+
+const expired: SubmissionError = {
+  code: 'expired',
+  message: 'This form has expired. Reload the page and try again.',
+}
+
+const alreadySubmitted: SubmissionError = {
+  code: 'expired',
+  message: 'This form was already submitted. Reload the page to send another message.',
+}
+
+// Returns why the submission looks automated, or null if it passes
+export function checkSubmission(formData: FormData): SubmissionError | null {
+  if (formData.get(HONEYPOT_FIELD)) {
+    return { code: 'spam', message: 'Submission rejected.' }
+  }
+
+  const { issuedAt, nonce, signature } = readToken(formData)
+  const expected = sign(`${issuedAt}.${nonce}`)
+  if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return expired
+  }
+  if (usedNonces.has(nonce)) return alreadySubmitted
+
+  const elapsed = Date.now() - Number(issuedAt)
+  if (elapsed > MAX_TOKEN_AGE_MS) return expired
+  if (elapsed < MIN_SUBMIT_MS) {
+    const retryAfterSeconds = Math.ceil((MIN_SUBMIT_MS - elapsed) / 1000)
+    return {
+      code: 'too_fast',
+      message: `Submitted too quickly. Retry in ${retryAfterSeconds}s.`,
+      retryAfterSeconds,
+    }
+  }
+
+  return null
+}
+
+// Marks the form's token as used; call it once the submission is accepted, after
+// checkSubmission passed. Until then a submission rejected for its fields can be
+// retried with the same token. Returns an error if another request got there first.
+export function redeemFormToken(formData: FormData): SubmissionError | null {
+  const now = Date.now()
+  for (const [nonce, expiresAt] of usedNonces) {
+    if (expiresAt <= now) usedNonces.delete(nonce)
+  }
+
+  const { issuedAt, nonce } = readToken(formData)
+  if (usedNonces.has(nonce)) return alreadySubmitted
+  usedNonces.set(nonce, Number(issuedAt) + MAX_TOKEN_AGE_MS)
+  return null
+}
@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('metadata')
+
+export default function MetadataLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="metadata">{children}</DemoShell>
+}
@@ -1,17 +1,12 @@
 'use client'
 
-import Link from 'next/link'
 import { useState } from 'react'
 
 export default function MetadataDemo() {
   const [showMetadata, setShowMetadata] = useState(false)
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>Document Metadata Demo</h1>
 
       <div className="demo-section">
@@ -177,6 +172,6 @@ export default async function BlogPost({ params }: Props) {
           <li>Child component metadata overrides parent metadata</li>
         </ul>
       </div>
-    </div>
+    </>
   )
 }
@@ -0,0 +1,15 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+const CUSTOM_TITLE = 'Custom Page Title - React 19 Demo'
+
+// <title> and <meta> rendered inside a component are hoisted into <head> and removed again
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.click('Show Metadata')
+  await page.waitFor('the document title to change', () => page.document.title === CUSTOM_TITLE)
+  page.expect(
+    page.document.head.querySelector('meta[name="description"][content="This is a dynamic description set by React 19!"]'),
+    'the description <meta> to be hoisted into <head>'
+  )
+  await page.click('Hide Metadata')
+  await page.waitFor('the document title to be restored', () => page.document.title !== CUSTOM_TITLE)
+}
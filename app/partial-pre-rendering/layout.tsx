@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('partial-pre-rendering')
+
+export default function PartialPreRenderingLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="partial-pre-rendering">{children}</DemoShell>
+}
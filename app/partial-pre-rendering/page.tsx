@@ -1,15 +1,11 @@
 'use client'
 
 import { useState, Suspense, use } from 'react'
-import Link from 'next/link'
+import { mockRequest } from '../lib/mock-network'
 
 // Simulate a slow data fetch
 function fetchData(id: string, delay: number): Promise<string> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve(`Data for ${id} (loaded after ${delay}ms)`)
-    }, delay)
-  })
+  return mockRequest('partial-pre-rendering/dynamic', delay, (latency) => `Data for ${id} (loaded after ${latency}ms)`)
 }
 
 // Dynamic component that requires data
@@ -543,11 +539,7 @@ function ArchitectureDiagram() {
 // Main page component
 export default function PartialPreRenderingPage() {
   return (
-    <div className="container">
-      <Link href="/" style={{ display: 'inline-block', marginBottom: '2rem', color: '#0070f3' }}>
-        ← Back to Home
-      </Link>
-      
+    <>
       <header style={{ marginBottom: '3rem' }}>
         <h1>Partial Pre-rendering</h1>
         <p style={{ fontSize: '1.25rem', color: '#666', marginTop: '1rem' }}>
@@ -686,7 +678,7 @@ export default function PartialPreRenderingPage() {
           </li>
         </ul>
       </section>
-    </div>
+    </>
   )
 }
 
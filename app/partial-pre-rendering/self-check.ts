@@ -0,0 +1,10 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// Static sections render straight away and every dynamic section streams in behind its own boundary
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.waitForText('Static: Header Section')
+  await page.waitForText('Dynamic: User Profile')
+  await page.waitForText('Dynamic: Recommendations')
+  await page.waitForText('Dynamic: Activity Feed')
+  await page.waitForText('Dynamic: Notifications')
+}
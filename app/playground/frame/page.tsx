@@ -0,0 +1,115 @@
+'use client'
+
+import { Component, useEffect, useState, type ComponentType, type ReactNode } from 'react'
+import * as React from 'react'
+import * as ReactDOM from 'react-dom'
+import * as jsxRuntime from 'react/jsx-runtime'
+import type { PlaygroundMessage } from '../../lib/playground'
+
+const modules: Record<string, unknown> = {
+  react: React,
+  'react-dom': ReactDOM,
+  'react/jsx-runtime': jsxRuntime,
+}
+
+function post(message: PlaygroundMessage) {
+  // The frame runs with an opaque origin (sandbox without allow-same-origin)
+  window.parent.postMessage(message, '*')
+}
+
+function evaluate(code: string): ComponentType {
+  const cjsModule: { exports: { default?: unknown } } = { exports: {} }
+  const require = (name: string) => {
+    if (name in modules) return modules[name]
+    throw new Error(`Cannot import "${name}" in the playground`)
+  }
+
+  new Function('require', 'module', 'exports', code)(require, cjsModule, cjsModule.exports)
+
+  if (typeof cjsModule.exports.default !== 'function') {
+    throw new Error('The snippet must `export default` a component')
+  }
+  return cjsModule.exports.default as ComponentType
+}
+
+class RuntimeErrorBoundary extends Component<{ children: ReactNode }, { error: Error | null }> {
+  state = { error: null as Error | null }
+
+  static getDerivedStateFromError(error: Error) {
+    return { error }
+  }
+
+  componentDidCatch(error: Error) {
+    post({ type: 'error', message: error.message })
+  }
+
+  render() {
+    if (this.state.error) {
+      return <div className="error">{this.state.error.message}</div>
+    }
+    return this.props.children
+  }
+}
+
+function Rendered({ Component }: { Component: ComponentType }) {
+  useEffect(() => {
+    post({ type: 'rendered' })
+  }, [Component])
+
+  return <Component />
+}
+
+// Preview side of <Playground>: evaluates compiled snippets sent by the parent page
+export default function PlaygroundFrame() {
+  const [run, setRun] = useState<{ id: number; Component: ComponentType } | null>(null)
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent<PlaygroundMessage>) => {
+      // Only the app's own pages may send code. The frame's origin is opaque, but
+      // location.origin is still the app's.
+      if (event.source !== window.parent || event.origin !== window.location.origin) return
+      if (event.data?.type !== 'run') return
+      // Not sandboxed (e.g. embedded by another site), the code would run with the app's origin
+      if (window.origin !== 'null') {
+        post({ type: 'error', message: 'The playground only runs code inside a sandboxed frame' })
+        return
+      }
+
+      try {
+        const Component = evaluate(event.data.code)
+        setRun((prev) => ({ id: (prev?.id ?? 0) + 1, Component }))
+      } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    // Errors thrown outside render, e.g. in event handlers or after an await
+    const onError = (event: ErrorEvent) => post({ type: 'error', message: event.message })
+    const onRejection = (event: PromiseRejectionEvent) =>
+      post({ type: 'error', message: `Unhandled rejection: ${event.reason?.message ?? event.reason}` })
+
+    window.addEventListener('message', onMessage)
+    window.addEventListener('error', onError)
+    window.addEventListener('unhandledrejection', onRejection)
+    post({ type: 'ready' })
+
+    return () => {
+      window.removeEventListener('message', onMessage)
+      window.removeEventListener('error', onError)
+      window.removeEventListener('unhandledrejection', onRejection)
+    }
+  }, [])
+
+  return (
+    <div style={{ padding: '1rem' }}>
+      {run ? (
+        // Remount on every run so edited hooks start from fresh state
+        <RuntimeErrorBoundary key={run.id}>
+          <Rendered Component={run.Component} />
+        </RuntimeErrorBoundary>
+      ) : (
+        <p style={{ color: '#666' }}>Waiting for code...</p>
+      )}
+    </div>
+  )
+}
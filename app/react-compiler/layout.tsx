@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('react-compiler')
+
+export default function ReactCompilerLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="react-compiler">{children}</DemoShell>
+}
@@ -1,7 +1,9 @@
 'use client'
 
 import { useState } from 'react'
-import Link from 'next/link'
+import { SourceCode } from '../components/SourceCode'
+import { RenderTracker, useRenderTracker } from '../components/RenderTracker'
+import snippets from './page.tsx?names=ExpensiveList,CounterDisplay&source'
 
 // Without React Compiler, you'd need useMemo/useCallback for these
 function ExpensiveList({ items, filter }: { items: string[]; filter: string }) {
@@ -31,14 +33,15 @@ function ExpensiveList({ items, filter }: { items: string[]; filter: string }) {
 
 // Component that would normally need React.memo
 function CounterDisplay({ count }: { count: number }) {
-  console.log('CounterDisplay rendered')
-  
+  // Counts and flashes each commit while the render overlay is on
+  const ref = useRenderTracker<HTMLDivElement>('CounterDisplay')
+
   return (
-    <div className="result">
+    <div ref={ref} className="result">
       <h4>Counter Value: {count}</h4>
       <p>This component is automatically memoized by React Compiler!</p>
       <p style={{ fontSize: '0.9rem', color: '#666' }}>
-        (Check console to see render frequency)
+        (Turn on the 🔁 render overlay to see render frequency)
       </p>
     </div>
   )
@@ -59,11 +62,7 @@ export default function ReactCompilerDemo() {
   ])
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>React Compiler v1.0 Demo</h1>
 
       <div className="demo-section">
@@ -99,7 +98,8 @@ export default function ReactCompilerDemo() {
         <h2>Interactive Demo</h2>
         <p>
           Try interacting with the components below. Notice how the CounterDisplay only re-renders when the count changes,
-          not when you type in the search box!
+          not when you type in the search box! Switch on the 🔁 render overlay (bottom left) to see each commit counted
+          and highlighted.
         </p>
 
         <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', maxWidth: '600px' }}>
@@ -122,7 +122,9 @@ export default function ReactCompilerDemo() {
               placeholder="Search items..."
               style={{ width: '100%', marginBottom: '1rem' }}
             />
-            <ExpensiveList items={items} filter={text} />
+            <RenderTracker name="ExpensiveList">
+              <ExpensiveList items={items} filter={text} />
+            </RenderTracker>
           </div>
         </div>
       </div>
@@ -158,30 +160,10 @@ const CounterDisplay = memo(({ count }) => {
 })`}</code>
         </pre>
 
-        <h3>With React Compiler (Automatic Optimization):</h3>
-        <pre>
-          <code>{`// No imports needed!
-
-// Automatically memoized by React Compiler
-function ExpensiveList({ items, filter }) {
-  // Automatically memoized computation
-  const filteredItems = items.filter(item =>
-    item.toLowerCase().includes(filter.toLowerCase())
-  )
-
-  // Automatically memoized function
-  const renderItem = (item, index) => {
-    return <div key={index}>{item}</div>
-  }
-
-  return <div>{filteredItems.map(renderItem)}</div>
-}
-
-// Automatically memoized component
-function CounterDisplay({ count }) {
-  return <div>Count: {count}</div>
-}`}</code>
-        </pre>
+        <h3>With React Compiler (the code running in this demo):</h3>
+        <p>No memo, useMemo or useCallback - this is the actual source of the components above.</p>
+        <SourceCode snippet={snippets.ExpensiveList} />
+        <SourceCode snippet={snippets.CounterDisplay} />
       </div>
 
       <div className="demo-section">
@@ -291,6 +273,6 @@ function Component() {
           Test thoroughly before deploying to production!
         </p>
       </div>
-    </div>
+    </>
   )
 }
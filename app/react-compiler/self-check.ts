@@ -0,0 +1,15 @@
+import { isReactCompilerActive } from '../lib/compiler-probe'
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// The bundle was compiled, the counter updates and the list filters
+export const selfCheck: SelfCheckScenario = async (page) => {
+  page.expect(isReactCompilerActive(), 'the React Compiler to have transformed this build')
+  await page.click('Increment')
+  await page.click('Increment')
+  await page.waitForText('Counter Value: 2')
+  await page.click('Reset')
+  await page.waitForText('Counter Value: 0')
+  await page.fill('input[placeholder="Search items..."]', 'server')
+  await page.waitForText('Server Components')
+  await page.waitForNoText('useOptimistic Hook')
+}
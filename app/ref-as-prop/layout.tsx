@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('ref-as-prop')
+
+export default function RefAsPropLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="ref-as-prop">{children}</DemoShell>
+}
@@ -1,7 +1,6 @@
 'use client'
 
 import { useRef, useState } from 'react'
-import Link from 'next/link'
 
 // Old way (React 18) - needed forwardRef
 // const OldInput = forwardRef((props, ref) => {
@@ -54,11 +53,7 @@ export default function RefAsPropDemo() {
   }
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>Ref as Prop Demo</h1>
 
       <div className="demo-section">
@@ -187,6 +182,6 @@ function CustomButton({ ref, children }: CustomButtonProps) {
           <li><strong>Consistent API:</strong> All props (including ref) work the same way</li>
         </ul>
       </div>
-    </div>
+    </>
   )
 }
@@ -0,0 +1,13 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// Refs passed as plain props reach the underlying <input> and <button>
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.click('Focus Input')
+  await page.waitForText('Input focused!')
+  page.expect(
+    page.document.activeElement?.getAttribute('placeholder') === 'Type something...',
+    'the custom input to have focus'
+  )
+  await page.click('Get Button Info')
+  await page.waitForText(/Button is [\d.]+px wide and [\d.]+px tall/)
+}
@@ -0,0 +1,207 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import Link from 'next/link'
+import { demos, type Demo, type DemoId } from '../lib/demos'
+import {
+  createSelfCheckPage,
+  selfCheckUrl,
+  SelfCheckSkip,
+  SELF_CHECK_COOKIE,
+  SELF_CHECK_LATENCY,
+} from '../lib/self-check'
+import { listRealUploads, resetSelfCheckData } from './actions'
+import { scenarios } from './scenarios'
+
+// In development the first visit to a route also compiles it
+const LOAD_TIMEOUT = 60000
+
+type Result = {
+  status: 'running' | 'passed' | 'failed' | 'skipped'
+  loadMs?: number
+  runMs?: number
+  step?: string
+  message?: string
+}
+
+const statusStyles: Record<Result['status'], { label: string; color: string }> = {
+  running: { label: '⏳ Running', color: 'var(--primary)' },
+  passed: { label: '✅ Passed', color: 'var(--success)' },
+  failed: { label: '❌ Failed', color: 'var(--error)' },
+  skipped: { label: '⏭ Skipped', color: '#666' },
+}
+
+// While the cookie is set, every request from this browser reads and writes the
+// self-check copies of the server stores, starting from their seed data. Its value
+// names the run, which gets its own rate limit bucket; null deletes it.
+function setSelfCheckCookie(run: string | null) {
+  document.cookie = `${SELF_CHECK_COOKIE}=${run ?? ''}; path=/; SameSite=Strict${run ? '' : '; max-age=0'}`
+}
+
+function loadFrame(frame: HTMLIFrameElement, url: string) {
+  return new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`${url} did not load within ${LOAD_TIMEOUT}ms`)), LOAD_TIMEOUT)
+    frame.onload = () => {
+      clearTimeout(timeout)
+      resolve()
+    }
+    frame.src = url
+  })
+}
+
+export function SelfCheckRunner() {
+  const frameRef = useRef<HTMLIFrameElement>(null)
+  const [results, setResults] = useState<Partial<Record<DemoId, Result>>>({})
+  const [running, setRunning] = useState(false)
+  const [totalMs, setTotalMs] = useState<number | null>(null)
+  // Set when the run itself failed, e.g. its data couldn't be reset, rather than a demo
+  const [runError, setRunError] = useState<string | null>(null)
+
+  const update = (id: DemoId, result: Result) => setResults((prev) => ({ ...prev, [id]: result }))
+
+  const runDemo = async (demo: Demo) => {
+    const frame = frameRef.current
+    if (!frame) return
+
+    let step: string | undefined
+    update(demo.id, { status: 'running' })
+    const start = performance.now()
+    let loadMs: number | undefined
+
+    try {
+      await loadFrame(frame, selfCheckUrl(demo.href))
+      loadMs = Math.round(performance.now() - start)
+      const page = createSelfCheckPage(frame, (next) => {
+        step = next
+        update(demo.id, { status: 'running', loadMs, step })
+      })
+      await scenarios[demo.id](page)
+      update(demo.id, { status: 'passed', loadMs, runMs: Math.round(performance.now() - start) - loadMs })
+    } catch (error) {
+      update(demo.id, {
+        status: error instanceof SelfCheckSkip ? 'skipped' : 'failed',
+        loadMs,
+        runMs: loadMs === undefined ? undefined : Math.round(performance.now() - start) - loadMs,
+        step,
+        message: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  const run = async (selection: Demo[]) => {
+    setRunning(true)
+    setTotalMs(null)
+    setRunError(null)
+    const start = performance.now()
+    try {
+      // Listed before the cookie is set, so these are the real files
+      const realUploads = await listRealUploads()
+      setSelfCheckCookie(Date.now().toString(36))
+      await resetSelfCheckData()
+      for (const demo of selection) {
+        await runDemo(demo)
+      }
+
+      // Scenarios write to their own copies, so every real upload must still be there
+      setSelfCheckCookie(null)
+      const remaining = new Set(await listRealUploads())
+      const lost = realUploads.filter((file) => !remaining.has(file))
+      if (lost.length > 0) throw new Error(`${lost.length} real uploads were deleted (${lost.join(', ')})`)
+    } catch (error) {
+      setRunError(`The run failed: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      try {
+        setSelfCheckCookie(null)
+        await resetSelfCheckData()
+      } catch {
+        // Leftovers are deleted before the next run
+      }
+      setTotalMs(Math.round(performance.now() - start))
+      setRunning(false)
+    }
+  }
+
+  const counts = Object.values(results).reduce<Record<string, number>>(
+    (acc, result) => ({ ...acc, [result.status]: (acc[result.status] ?? 0) + 1 }),
+    {}
+  )
+
+  return (
+    <>
+      <div className="demo-section">
+        <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          <button onClick={() => run(demos)} disabled={running}>
+            {running ? 'Running...' : '▶ Run all'}
+          </button>
+          <span style={{ color: '#666' }}>
+            Mock latency: {SELF_CHECK_LATENCY}ms
+            {totalMs !== null &&
+              ` · ${counts.passed ?? 0} passed, ${counts.failed ?? 0} failed, ${counts.skipped ?? 0} skipped in ${(totalMs / 1000).toFixed(1)}s`}
+          </span>
+        </div>
+        {runError && (
+          <div className="error" style={{ marginTop: '1rem' }}>
+            {runError}
+          </div>
+        )}
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '1rem' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', borderBottom: '2px solid var(--border)' }}>
+              <th style={{ padding: '0.5rem' }}>Demo</th>
+              <th style={{ padding: '0.5rem' }}>Status</th>
+              <th style={{ padding: '0.5rem' }}>Load</th>
+              <th style={{ padding: '0.5rem' }}>Scenario</th>
+              <th style={{ padding: '0.5rem' }} />
+            </tr>
+          </thead>
+          <tbody>
+            {demos.map((demo) => {
+              const result = results[demo.id]
+              return (
+                <tr key={demo.id} style={{ borderBottom: '1px solid var(--border)', verticalAlign: 'top' }}>
+                  <td style={{ padding: '0.5rem' }}>
+                    <Link href={demo.href}>{demo.title}</Link>
+                    {result?.message && (
+                      <div
+                        className={result.status === 'failed' ? 'error' : undefined}
+                        style={{ fontSize: '0.85rem', marginTop: '0.5rem' }}
+                      >
+                        {result.message}
+                        {result.status === 'failed' && result.step && (
+                          <div style={{ marginTop: '0.25rem', color: '#666' }}>Last step: {result.step}</div>
+                        )}
+                      </div>
+                    )}
+                    {result?.status === 'running' && result.step && (
+                      <div style={{ fontSize: '0.85rem', color: '#666' }}>{result.step}</div>
+                    )}
+                  </td>
+                  <td style={{ padding: '0.5rem', color: result ? statusStyles[result.status].color : '#666' }}>
+                    {result ? statusStyles[result.status].label : 'Not run'}
+                  </td>
+                  <td style={{ padding: '0.5rem' }}>{result?.loadMs !== undefined ? `${result.loadMs}ms` : '–'}</td>
+                  <td style={{ padding: '0.5rem' }}>{result?.runMs !== undefined ? `${result.runMs}ms` : '–'}</td>
+                  <td style={{ padding: '0.5rem' }}>
+                    <button onClick={() => run([demo])} disabled={running} style={{ padding: '0.25rem 0.75rem' }}>
+                      Run
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="demo-section">
+        <h2>Live View</h2>
+        <iframe
+          ref={frameRef}
+          title="Demo under test"
+          style={{ width: '100%', height: '480px', border: '1px solid var(--border)', borderRadius: '8px' }}
+        />
+      </div>
+    </>
+  )
+}
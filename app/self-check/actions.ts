@@ -0,0 +1,23 @@
+'use server'
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { DATA_DIR, SELF_CHECK_DATA_DIR } from '../lib/file-store'
+
+// Deletes the stores the scenarios wrote to, before and after a run
+export async function resetSelfCheckData() {
+  await fs.rm(SELF_CHECK_DATA_DIR, { recursive: true, force: true })
+}
+
+// The real (not self-check) uploads, so the runner can tell a run left them alone
+export async function listRealUploads(): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(path.join(DATA_DIR, 'uploads'), { recursive: true, withFileTypes: true })
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => path.relative(DATA_DIR, path.join(entry.parentPath, entry.name)))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
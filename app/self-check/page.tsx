@@ -0,0 +1,31 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { SelfCheckRunner } from './SelfCheckRunner'
+
+export const metadata: Metadata = {
+  title: 'Self-Check',
+  description: 'Runs a scripted scenario against every demo and reports pass/fail with timings.',
+}
+
+export default function SelfCheckPage() {
+  return (
+    <div className="container">
+      <div className="demo-topbar">
+        <nav aria-label="Breadcrumb" className="breadcrumbs">
+          <Link href="/">Home</Link>
+          <span aria-hidden="true">/</span>
+          <span aria-current="page">Self-Check</span>
+        </nav>
+      </div>
+
+      <h1>Self-Check</h1>
+      <p>
+        Loads every demo in the frame below and plays its scripted scenario (<code>self-check.ts</code> next to the
+        demo&apos;s page), with the mock network sped up. Run it after upgrading React or Next.js instead of clicking
+        through each page.
+      </p>
+
+      <SelfCheckRunner />
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import type { DemoId } from '../lib/demos'
+import type { SelfCheckScenario } from '../lib/self-check'
+import { selfCheck as useHook } from '../use-hook/self-check'
+import { selfCheck as serverActions } from '../server-actions/self-check'
+import { selfCheck as boundActions } from '../bound-actions/self-check'
+import { selfCheck as useOptimistic } from '../use-optimistic/self-check'
+import { selfCheck as useFormStatus } from '../use-form-status/self-check'
+import { selfCheck as metadata } from '../metadata/self-check'
+import { selfCheck as refAsProp } from '../ref-as-prop/self-check'
+import { selfCheck as contextProvider } from '../context-provider/self-check'
+import { selfCheck as assetLoading } from '../asset-loading/self-check'
+import { selfCheck as reactCompiler } from '../react-compiler/self-check'
+import { selfCheck as formActions } from '../form-actions/self-check'
+import { selfCheck as asyncTransitions } from '../async-transitions/self-check'
+import { selfCheck as errorHandling } from '../error-handling/self-check'
+import { selfCheck as viewTransitions } from '../view-transitions/self-check'
+import { selfCheck as activity } from '../activity/self-check'
+import { selfCheck as suspenseImprovements } from '../suspense-improvements/self-check'
+import { selfCheck as captureOwnerStack } from '../capture-owner-stack/self-check'
+import { selfCheck as useEffectEvent } from '../use-effect-event/self-check'
+import { selfCheck as partialPreRendering } from '../partial-pre-rendering/self-check'
+
+// One scenario per registered demo; a new demo doesn't type-check until it has one
+export const scenarios: Record<DemoId, SelfCheckScenario> = {
+  'use-hook': useHook,
+  'server-actions': serverActions,
+  'bound-actions': boundActions,
+  'use-optimistic': useOptimistic,
+  'use-form-status': useFormStatus,
+  'metadata': metadata,
+  'ref-as-prop': refAsProp,
+  'context-provider': contextProvider,
+  'asset-loading': assetLoading,
+  'react-compiler': reactCompiler,
+  'form-actions': formActions,
+  'async-transitions': asyncTransitions,
+  'error-handling': errorHandling,
+  'view-transitions': viewTransitions,
+  'activity': activity,
+  'suspense-improvements': suspenseImprovements,
+  'capture-owner-stack': captureOwnerStack,
+  'use-effect-event': useEffectEvent,
+  'partial-pre-rendering': partialPreRendering,
+}
@@ -1,72 +1,156 @@
 'use client'
 
-import { useActionState } from 'react'
+import { useActionState, useState } from 'react'
+import { useFormStatus } from 'react-dom'
+import { FORM_TOKEN_FIELD, HONEYPOT_FIELD } from '../lib/form-protection'
 import { submitFormAction } from './actions'
+import {
+  attachmentAttributes,
+  attachmentRules,
+  contactForm,
+  formatBytes,
+  initialFormState,
+  type ContactField,
+  type FormState,
+} from './schema'
 
-export function ServerActionForm() {
-  const [state, formAction, isPending] = useActionState(submitFormAction, null)
+function Field({ field, state }: { field: ContactField; state: FormState }) {
+  const error = state.fieldErrors[field]
+  const props = {
+    ...contactForm.attributes(field),
+    // React resets the form after the action; defaultValue refills it with what was submitted
+    defaultValue: state.values[field],
+    placeholder: `Enter your ${field}`,
+    'aria-invalid': error ? true : undefined,
+    'aria-describedby': error ? `${field}-error` : undefined,
+    style: { width: '100%', borderColor: error ? 'var(--error)' : undefined },
+  }
 
   return (
     <div>
-      <form action={formAction} style={{ display: 'flex', flexDirection: 'column', gap: '1rem', maxWidth: '400px' }}>
-        <div>
-          <label htmlFor="name" style={{ display: 'block', marginBottom: '0.5rem' }}>
-            Name:
-          </label>
-          <input
-            id="name"
-            name="name"
-            type="text"
-            placeholder="Enter your name"
-            required
-            style={{ width: '100%' }}
-          />
+      <label htmlFor={field} style={{ display: 'block', marginBottom: '0.5rem' }}>
+        {contactForm.schema[field].label}:
+      </label>
+      {contactForm.schema[field].type === 'textarea' ? <textarea rows={4} {...props} /> : <input {...props} />}
+      {error && (
+        <div id={`${field}-error`} style={{ color: 'var(--error)', fontSize: '0.9rem', marginTop: '0.25rem' }}>
+          {error}
         </div>
+      )}
+    </div>
+  )
+}
 
-        <div>
-          <label htmlFor="email" style={{ display: 'block', marginBottom: '0.5rem' }}>
-            Email:
-          </label>
-          <input
-            id="email"
-            name="email"
-            type="email"
-            placeholder="Enter your email"
-            required
-            style={{ width: '100%' }}
-          />
-        </div>
+function AttachmentsField({ state }: { state: FormState }) {
+  const error = state.fieldErrors.attachments
+  const allowed = Object.values(attachmentRules.types).join(', ')
+
+  return (
+    <div>
+      <label htmlFor={attachmentRules.field} style={{ display: 'block', marginBottom: '0.5rem' }}>
+        {attachmentRules.label} (optional):
+      </label>
+      <input
+        {...attachmentAttributes()}
+        aria-invalid={error ? true : undefined}
+        aria-describedby={`${attachmentRules.field}-hint`}
+      />
+      <div id={`${attachmentRules.field}-hint`} style={{ fontSize: '0.85rem', color: '#666', marginTop: '0.25rem' }}>
+        Up to {attachmentRules.maxFiles} files, {formatBytes(attachmentRules.maxFileSize)} each: {allowed}
+        {/* Browsers never refill file inputs, unlike the text fields above */}
+        {state.status === 'error' && '. Choose your files again after an error.'}
+      </div>
+      {error && (
+        <div style={{ color: 'var(--error)', fontSize: '0.9rem', marginTop: '0.25rem' }}>{error}</div>
+      )}
+    </div>
+  )
+}
 
-        <div>
-          <label htmlFor="message" style={{ display: 'block', marginBottom: '0.5rem' }}>
-            Message:
+// Must render inside the <form>: useFormStatus reads the status of its parent form
+function SubmitButton() {
+  const { pending, data } = useFormStatus()
+  const fileCount = data
+    ?.getAll(attachmentRules.field)
+    .filter((value) => typeof value !== 'string' && value.size > 0).length
+
+  return (
+    <button type="submit" disabled={pending}>
+      {!pending ? 'Submit Form' : fileCount ? `Uploading ${fileCount} file${fileCount > 1 ? 's' : ''}...` : 'Submitting...'}
+    </button>
+  )
+}
+
+// `permalink` is where the form posts before hydration or with JavaScript off; the server
+// runs the action and renders that page with the returned state already applied.
+// `formToken` comes from createFormToken() while the page renders (spam protection).
+export function ServerActionForm({ formToken, permalink = '/server-actions' }: { formToken: string; permalink?: string }) {
+  const [state, formAction] = useActionState(submitFormAction, initialFormState, permalink)
+  const [skipBrowserValidation, setSkipBrowserValidation] = useState(false)
+
+  return (
+    <div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+        <input
+          type="checkbox"
+          checked={skipBrowserValidation}
+          onChange={(e) => setSkipBrowserValidation(e.target.checked)}
+        />
+        Skip browser validation (to see the server&apos;s field errors)
+      </label>
+
+      <form
+        action={formAction}
+        noValidate={skipBrowserValidation}
+        style={{ display: 'flex', flexDirection: 'column', gap: '1rem', maxWidth: '400px' }}
+      >
+        {contactForm.fields.map((field) => (
+          <Field key={field} field={field} state={state} />
+        ))}
+
+        <AttachmentsField state={state} />
+
+        <input type="hidden" name={FORM_TOKEN_FIELD} value={formToken} />
+        {/* Honeypot: off-screen and hidden from assistive tech, so only bots fill it in */}
+        <div aria-hidden="true" style={{ position: 'absolute', left: '-10000px', width: '1px', height: '1px', overflow: 'hidden' }}>
+          <label>
+            Website
+            <input name={HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" defaultValue="" />
           </label>
-          <textarea
-            id="message"
-            name="message"
-            placeholder="Enter your message"
-            rows={4}
-            required
-            style={{ width: '100%' }}
-          />
         </div>
 
-        <button type="submit" disabled={isPending}>
-          {isPending ? 'Submitting...' : 'Submit Form'}
-        </button>
+        <SubmitButton />
       </form>
 
-      {state?.error && (
+      {state.status === 'error' && (
         <div className="error" style={{ marginTop: '1rem' }}>
-          <strong>Error:</strong> {state.error}
+          <strong>{state.error ? `Error (${state.error.code}):` : 'Error:'}</strong> {state.message}
         </div>
       )}
 
-      {state?.success && (
+      {state.status === 'success' && (
         <div className="success" style={{ marginTop: '1rem' }}>
           <strong>Success!</strong> {state.message}
+          {state.attachments && state.attachments.length > 0 && (
+            <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1.25rem' }}>
+              {state.attachments.map((attachment) => (
+                <li key={attachment.url}>
+                  <a href={attachment.url} target="_blank" rel="noreferrer">
+                    {attachment.name}
+                  </a>{' '}
+                  ({attachmentRules.types[attachment.type]}, {formatBytes(attachment.size)})
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
+
+      {state.rateLimit && (
+        <p style={{ marginTop: '0.5rem', fontSize: '0.9rem', color: '#666' }}>
+          Rate limit: {state.rateLimit.remaining} of {state.rateLimit.capacity} submissions left (one more every 10s)
+        </p>
+      )}
     </div>
   )
 }
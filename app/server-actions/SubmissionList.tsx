@@ -0,0 +1,45 @@
+import { clearSubmissionsAction } from './actions'
+import { attachmentRules, formatBytes } from './schema'
+import { getSubmissions } from './submissions'
+
+// Server Component: reads the store directly and is re-rendered by revalidatePath('/server-actions')
+export async function SubmissionList() {
+  const submissions = await getSubmissions()
+
+  if (submissions.length === 0) {
+    return <p style={{ color: '#666', fontStyle: 'italic' }}>No submissions yet. Send the form above!</p>
+  }
+
+  return (
+    <div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', maxWidth: '600px' }}>
+        {submissions.map((submission) => (
+          <div key={submission.id} className="card" style={{ padding: '0.75rem 1rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
+              <strong>
+                {submission.name} &lt;{submission.email}&gt;
+              </strong>
+              <small style={{ color: '#666' }}>
+                <time dateTime={submission.createdAt}>{new Date(submission.createdAt).toLocaleString('en-US')}</time>
+              </small>
+            </div>
+            <p style={{ margin: '0.25rem 0 0', whiteSpace: 'pre-wrap' }}>{submission.message}</p>
+            {submission.attachments && submission.attachments.length > 0 && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginTop: '0.5rem' }}>
+                {submission.attachments.map((attachment) => (
+                  <a key={attachment.url} href={attachment.url} target="_blank" rel="noreferrer" className="badge">
+                    📎 {attachment.name} ({attachmentRules.types[attachment.type]}, {formatBytes(attachment.size)})
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form action={clearSubmissionsAction} style={{ marginTop: '1rem' }}>
+        <button type="submit">Clear submissions</button>
+      </form>
+    </div>
+  )
+}
@@ -1,31 +1,76 @@
 'use server'
 
-export async function submitFormAction(prevState: any, formData: FormData) {
-  // Simulate server processing time
-  await new Promise((resolve) => setTimeout(resolve, 1000))
+import { revalidatePath } from 'next/cache'
+import { instrumentAction } from '../lib/action-log'
+import { simulateLatency } from '../lib/server-latency'
+import { createTokenBucketLimiter, getClientKey, rateLimitedError, type RateLimiter } from '../lib/rate-limit'
+import { checkSubmission, redeemFormToken } from '../lib/spam-check'
+import { contactForm, initialFormState, type FormState } from './schema'
+import { addSubmission, clearSubmissions } from './submissions'
+import { validateAttachments } from './uploads'
 
-  const name = formData.get('name') as string
-  const email = formData.get('email') as string
-  const message = formData.get('message') as string
+// 5 submissions per client, then one more every 10 seconds
+const limiter: RateLimiter = createTokenBucketLimiter({ capacity: 5, refillIntervalMs: 10_000 })
 
-  // Validation
-  if (!name || !email || !message) {
-    return {
-      error: 'Please fill in all fields',
-      success: false,
+export const submitFormAction = instrumentAction(
+  'submitFormAction',
+  async (prevState: FormState, formData: FormData): Promise<FormState> => {
+    // Simulate server processing time
+    await simulateLatency(1000)
+
+    // Validation: the same schema that sets the form's required/type attributes. It parses
+    // directly instead of through contactForm.action, so spam and the rate limit are
+    // checked before field errors are reported.
+    const { values, fieldErrors }: Pick<FormState, 'values' | 'fieldErrors'> = contactForm.parse(formData)
+    const { files, error: attachmentError } = await validateAttachments(formData)
+    if (attachmentError) fieldErrors.attachments = attachmentError
+
+    // Spam checks first, so bots don't use up a real client's rate limit
+    const spamError = checkSubmission(formData)
+    if (spamError) {
+      return { status: 'error', message: spamError.message, values, fieldErrors: {}, error: spamError }
+    }
+
+    const limit = await limiter.consume(await getClientKey())
+    const rateLimit = { remaining: limit.remaining, capacity: limit.capacity }
+    if (!limit.allowed) {
+      const error = rateLimitedError(limit.retryAfterSeconds)
+      return { status: 'error', message: error.message, values, fieldErrors: {}, error, rateLimit }
     }
-  }
 
-  if (!email.includes('@')) {
+    if (Object.keys(fieldErrors).length > 0) {
+      return {
+        status: 'error',
+        message: 'Please fix the highlighted fields',
+        values,
+        fieldErrors,
+        rateLimit,
+      }
+    }
+
+    // Each rendered form is accepted once; the revalidated page renders a new token
+    const replayError = redeemFormToken(formData)
+    if (replayError) {
+      return { status: 'error', message: replayError.message, values, fieldErrors: {}, error: replayError, rateLimit }
+    }
+
+    // Mutate, then revalidate: the response re-renders the page's Server Components,
+    // so the submissions list updates in the same round trip
+    const { attachments } = await addSubmission(values, files)
+    revalidatePath('/server-actions')
+
+    // The form starts empty again
     return {
-      error: 'Please enter a valid email address',
-      success: false,
+      ...initialFormState,
+      status: 'success',
+      message: `Thanks ${values.name}! We received your message and will contact you at ${values.email} soon.`,
+      attachments,
+      rateLimit,
     }
   }
+)
 
-  // Simulate successful submission
-  return {
-    success: true,
-    message: `Thanks ${name}! We received your message and will contact you at ${email} soon.`,
-  }
-}
+export const clearSubmissionsAction = instrumentAction('clearSubmissionsAction', async () => {
+  await clearSubmissions()
+  revalidatePath('/server-actions')
+})
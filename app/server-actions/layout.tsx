@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('server-actions')
+
+export default function ServerActionsLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="server-actions">{children}</DemoShell>
+}
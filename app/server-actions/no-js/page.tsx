@@ -0,0 +1,39 @@
+import Link from 'next/link'
+import { connection } from 'next/server'
+import { createFormToken } from '../../lib/spam-check'
+import { ServerActionForm } from '../ServerActionForm'
+import { SubmissionList } from '../SubmissionList'
+
+// Same form and list as /server-actions, for trying the no-JavaScript path: disable JavaScript
+// in the browser, or open it from the "Without JavaScript" preview there (a script-less iframe)
+export default async function ServerActionsNoJsDemo() {
+  await connection()
+
+  return (
+    <>
+      <h1>Server Actions without JavaScript</h1>
+
+      <div className="demo-section">
+        <p>
+          Submitting this form with JavaScript disabled is a plain HTML form POST to this page. Next.js runs the
+          server action, and <code>useActionState</code> renders the returned state, including field errors and
+          refilled inputs, into the HTML response. The list below is rendered on the server after the action&apos;s{' '}
+          <code>revalidatePath</code>. With JavaScript on, the same form upgrades to a client-side action call.
+        </p>
+        <p style={{ marginTop: '0.5rem' }}>
+          <Link href="/server-actions">← Back to the Server Actions demo</Link>
+        </p>
+      </div>
+
+      <div className="demo-section">
+        <h2>Form</h2>
+        <ServerActionForm formToken={createFormToken()} permalink="/server-actions/no-js" />
+      </div>
+
+      <div className="demo-section">
+        <h2>Past Submissions</h2>
+        <SubmissionList />
+      </div>
+    </>
+  )
+}
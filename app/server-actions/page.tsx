@@ -1,13 +1,23 @@
 import Link from 'next/link'
+import { connection } from 'next/server'
+import { createFormToken } from '../lib/spam-check'
 import { ServerActionForm } from './ServerActionForm'
+import { SubmissionList } from './SubmissionList'
+import { SourceCode } from '../components/SourceCode'
+import actionSnippets from './actions.ts?names=submitFormAction&source'
+import formSnippets from './ServerActionForm.tsx?names=SubmitButton,ServerActionForm&source'
+import schemaSnippets from './schema.ts?names=contactForm&source'
+import listSnippets from './SubmissionList.tsx?names=SubmissionList&source'
+import formSchemaSnippets from '../lib/form-schema.ts?names=defineForm&source'
+import rateLimitSnippets from '../lib/rate-limit.ts?names=createTokenBucketLimiter&source'
+import uploadSnippets from './uploads.ts?names=validateAttachments&source'
 
-export default function ServerActionsDemo() {
-  return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
+export default async function ServerActionsDemo() {
+  // Rendered per request: each visitor gets a freshly timestamped form token
+  await connection()
 
+  return (
+    <>
       <h1>Server Actions Demo</h1>
 
       <div className="demo-section">
@@ -29,8 +39,100 @@ export default function ServerActionsDemo() {
 
       <div className="demo-section">
         <h2>Interactive Demo</h2>
-        <p>Try submitting the form below. The server action will process the data and return a response.</p>
-        <ServerActionForm />
+        <p>
+          Try submitting the form below. The server action validates it against the same schema that sets the inputs&apos;
+          <code>required</code>/<code>type</code> attributes and returns typed state: per-field errors plus the values you
+          submitted, which refill the form after React resets it. Skip browser validation to see the server&apos;s errors.
+        </p>
+        <ServerActionForm formToken={createFormToken()} />
+      </div>
+
+      <div className="demo-section">
+        <h2>Spam Protection and Rate Limiting</h2>
+        <p>The action rejects automated submissions before touching the store, with structured errors the form can show:</p>
+        <ul style={{ marginLeft: '2rem', lineHeight: '2' }}>
+          <li>
+            <strong>Honeypot:</strong> an off-screen <code>website</code> field people never see; if it has a value,
+            the submission is rejected (<code>spam</code>)
+          </li>
+          <li>
+            <strong>Minimum time-to-submit:</strong> the page renders a signed timestamp into the form; submitting within 2
+            seconds of loading it fails with <code>too_fast</code> (&quot;Retry in 2s&quot;), a forged or old token with{' '}
+            <code>expired</code>. The token also holds a nonce, so a form that was accepted can&apos;t be replayed; the
+            revalidated page renders a new one
+          </li>
+          <li>
+            <strong>Token bucket per client:</strong> 5 submissions, then one more every 10 seconds; over the limit the
+            action returns <code>rate_limited</code> with <code>retryAfterSeconds</code>. The limiter is in memory behind a
+            small <code>RateLimiter</code> type, so a shared store can replace it without touching the action. Clients are
+            told apart by IP only behind a proxy (<code>TRUST_PROXY=true</code>), since anyone can send forwarding headers
+          </li>
+        </ul>
+        <p style={{ marginTop: '0.5rem' }}>Try it: reload and submit right away, or submit six times in a row.</p>
+      </div>
+
+      <div className="demo-section">
+        <h2>File Attachments</h2>
+        <p>
+          Files travel in the same <code>FormData</code> as the text fields; the action receives them as{' '}
+          <code>File</code> objects. Nothing on the client is trusted:
+        </p>
+        <ul style={{ marginLeft: '2rem', lineHeight: '2' }}>
+          <li>
+            <strong>Size and count</strong> are checked again on the server (the <code>accept</code> attribute only
+            filters the file picker). Server Actions accept 1 MB request bodies by default, so{' '}
+            <code>next.config.js</code> raises <code>serverActions.bodySizeLimit</code> to fit three files
+          </li>
+          <li>
+            <strong>MIME type</strong> comes from the file&apos;s first bytes, not its name or the browser&apos;s{' '}
+            <code>file.type</code>; a file whose content doesn&apos;t match what the browser claims is rejected
+          </li>
+          <li>
+            <strong>Storage:</strong> accepted files are written to <code>.data/uploads/&lt;submission id&gt;/</code> under
+            a sanitized name and served by a route handler that only returns files recorded on a submission, with the
+            sniffed <code>Content-Type</code> and <code>nosniff</code>
+          </li>
+        </ul>
+        <p style={{ marginTop: '0.5rem' }}>
+          The submit button is its own component that calls <code>useFormStatus()</code>: it reads the pending state and
+          the submitted <code>FormData</code> of the form around it, so it can say how many files are uploading without
+          props from the form.
+        </p>
+        <SourceCode snippet={uploadSnippets.validateAttachments} />
+        <SourceCode snippet={formSnippets.SubmitButton} />
+      </div>
+
+      <div className="demo-section">
+        <h2>Without JavaScript</h2>
+        <p>
+          The form passes a permalink to <code>useActionState</code>, so it works before hydration and with JavaScript
+          disabled: the browser posts the form, the server runs the action and returns the page with the result already
+          rendered. The preview below loads <Link href="/server-actions/no-js">/server-actions/no-js</Link> in an
+          iframe that is not allowed to run scripts, so every submission takes that path.
+        </p>
+        <details style={{ marginTop: '1rem' }}>
+          <summary style={{ cursor: 'pointer', fontWeight: 600 }}>Show the form with JavaScript disabled</summary>
+          <iframe
+            src="/server-actions/no-js"
+            title="Server action form without JavaScript"
+            // No allow-scripts: the page runs as if JavaScript were off. allow-same-origin keeps
+            // the Origin header that Next.js checks on server action requests.
+            sandbox="allow-forms allow-same-origin"
+            loading="lazy"
+            style={{ width: '100%', height: '700px', marginTop: '1rem', border: '1px solid var(--border)', borderRadius: '8px' }}
+          />
+        </details>
+      </div>
+
+      <div className="demo-section">
+        <h2>Past Submissions</h2>
+        <p>
+          Successful submissions are saved to a local JSON file (<code>.data/submissions.json</code>), their attachments
+          next to it. This list is a
+          Server Component that reads that file; after saving, the action calls <code>revalidatePath(&apos;/server-actions&apos;)</code>,
+          and the action&apos;s response carries the re-rendered list, with no extra fetch or client state.
+        </p>
+        <SubmissionList />
       </div>
 
       <div className="demo-section">
@@ -76,6 +178,17 @@ export function Form() {
         </pre>
       </div>
 
+      <div className="demo-section">
+        <h2>Source of This Demo</h2>
+        <p>The action and form running above, extracted from the repository at build time:</p>
+        <SourceCode snippet={formSchemaSnippets.defineForm} />
+        <SourceCode snippet={schemaSnippets.contactForm} />
+        <SourceCode snippet={actionSnippets.submitFormAction} />
+        <SourceCode snippet={listSnippets.SubmissionList} />
+        <SourceCode snippet={rateLimitSnippets.createTokenBucketLimiter} />
+        <SourceCode snippet={formSnippets.ServerActionForm} />
+      </div>
+
       <div className="demo-section">
         <h2>Benefits</h2>
         <ul style={{ marginLeft: '2rem', lineHeight: '2' }}>
@@ -86,6 +199,6 @@ export function Form() {
           <li><strong>Better DX:</strong> Simpler code, less boilerplate</li>
         </ul>
       </div>
-    </div>
+    </>
   )
 }
@@ -0,0 +1,66 @@
+import type { SubmissionError } from '../lib/form-protection'
+import { defineForm, type FormActionState, type FormField, type FormValues } from '../lib/form-schema'
+
+// The contact form's fields. The server action validates against them and
+// ServerActionForm turns them into input attributes.
+export const contactForm = defineForm({
+  name: { label: 'Name', type: 'text', required: true, minLength: 2, maxLength: 80 },
+  email: { label: 'Email', type: 'email', required: true, maxLength: 120 },
+  message: { label: 'Message', type: 'textarea', required: true, minLength: 10, maxLength: 1000 },
+})
+
+export type ContactField = FormField<typeof contactForm.schema>
+
+export type ContactValues = FormValues<typeof contactForm.schema>
+
+// Optional files sent with the message. The server checks each file's size and
+// sniffs its content (the browser-reported MIME type is only a hint).
+export const attachmentRules = {
+  field: 'attachments',
+  label: 'Attachments',
+  maxFiles: 3,
+  maxFileSize: 1024 * 1024,
+  types: {
+    'image/png': 'PNG',
+    'image/jpeg': 'JPEG',
+    'image/gif': 'GIF',
+    'image/webp': 'WebP',
+    'application/pdf': 'PDF',
+    'text/plain': 'plain text',
+  },
+} as const
+
+export type AttachmentType = keyof typeof attachmentRules.types
+
+export type Attachment = {
+  name: string
+  size: number
+  type: AttachmentType
+  url: string
+}
+
+export type FormState = FormActionState<typeof contactForm.schema, typeof attachmentRules.field> & {
+  // The stored files, after a successful submission
+  attachments?: Attachment[]
+  // Set when spam protection or the rate limit rejected the submission
+  error?: SubmissionError
+  rateLimit?: { remaining: number; capacity: number }
+}
+
+export const initialFormState: FormState = contactForm.initialState
+
+export function attachmentAttributes() {
+  return {
+    id: attachmentRules.field,
+    name: attachmentRules.field,
+    type: 'file',
+    multiple: true,
+    accept: Object.keys(attachmentRules.types).join(','),
+  }
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
@@ -0,0 +1,53 @@
+import { FORM_TOKEN_FIELD, MIN_SUBMIT_MS } from '../lib/form-protection'
+import type { SelfCheckPage, SelfCheckScenario } from '../lib/self-check'
+
+// What a file picker does: the frame's own DataTransfer builds the FileList
+function attachFile(page: SelfCheckPage, name: string, content: string) {
+  const input = page.document.querySelector<HTMLInputElement>('#attachments')
+  const frameWindow = page.document.defaultView
+  page.expect(input && frameWindow, 'an attachments input')
+  if (!input || !frameWindow) return
+
+  const transfer = new frameWindow.DataTransfer()
+  transfer.items.add(new frameWindow.File([content], name, { type: 'text/plain' }))
+  input.files = transfer.files
+  input.dispatchEvent(new Event('change', { bubbles: true }))
+}
+
+// The spam check rejects a form submitted before its token is MIN_SUBMIT_MS old.
+// The token starts with when the server issued it; both clocks are this machine's.
+function tokenIssuedAt(page: SelfCheckPage) {
+  const token = page.document.querySelector<HTMLInputElement>(`input[name="${FORM_TOKEN_FIELD}"]`)?.value
+  return Number(token?.split('.')[0])
+}
+
+// A round trip through the real server action: once the form token is old enough, field
+// errors refill the form, then a valid submission with an attachment succeeds and shows up
+// in the revalidated list. The attachment goes to the run's own uploads, not the real ones,
+// and the submissions count against the run's own rate limit bucket.
+export const selfCheck: SelfCheckScenario = async (page) => {
+  const message = `Self-check submission ${Date.now()}`
+
+  await page.click('Skip browser validation (to see the server\'s field errors)')
+  await page.fill('#name', 'Ada')
+  await page.fill('#email', 'not-an-email')
+  await page.waitFor('the form token to be old enough to submit', () => {
+    const issuedAt = tokenIssuedAt(page)
+    return Number.isFinite(issuedAt) && Date.now() - issuedAt >= MIN_SUBMIT_MS
+  })
+  await page.click('Submit Form')
+  await page.waitForText('Please fix the highlighted fields')
+  await page.waitForText('Please enter a valid email address')
+  await page.waitForText('Message is required')
+  const name = await page.waitForElement<HTMLInputElement>('#name')
+  page.expect(name.value === 'Ada', 'the submitted name to be refilled')
+
+  await page.fill('#email', 'ada@example.com')
+  await page.fill('#message', message)
+  attachFile(page, 'self-check.txt', message)
+  await page.click('Submit Form')
+  await page.waitForText('Uploading 1 file...')
+  await page.waitForText('Thanks Ada!')
+  await page.waitForText(message)
+  await page.waitForText('📎 self-check.txt')
+}
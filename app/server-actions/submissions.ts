@@ -0,0 +1,37 @@
+import { randomUUID } from 'crypto'
+import { createFileStore } from '../lib/file-store'
+import type { Attachment, ContactValues } from './schema'
+import { clearUploads, saveAttachments, type AcceptedFile } from './uploads'
+
+export type Submission = ContactValues & {
+  id: string
+  createdAt: string
+  attachments?: Attachment[]
+}
+
+// Keep the demo's file small
+const MAX_SUBMISSIONS = 100
+
+const store = createFileStore<Submission[]>('submissions', [])
+
+// Newest first
+export async function getSubmissions(): Promise<Submission[]> {
+  return (await store.read()).slice().reverse()
+}
+
+export async function getSubmission(id: string): Promise<Submission | undefined> {
+  return (await store.read()).find((submission) => submission.id === id)
+}
+
+export async function addSubmission(values: ContactValues, files: AcceptedFile[] = []): Promise<Submission> {
+  const id = randomUUID()
+  const attachments = await saveAttachments(id, files)
+  const submission = { id, createdAt: new Date().toISOString(), ...values, attachments }
+  await store.update((submissions) => [...submissions, submission].slice(-MAX_SUBMISSIONS))
+  return submission
+}
+
+export async function clearSubmissions() {
+  await store.update(() => [])
+  await clearUploads()
+}
@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { storeDir } from '../lib/file-store'
+import { attachmentRules, formatBytes, type Attachment, type AttachmentType } from './schema'
+
+// Attachment checks and storage for the contact form. Accepted files go to
+// .data/uploads/<submission id>/ and are served by ./uploads/[submissionId]/[file]/route.ts.
+
+// Per request, like the stores: a self-check run gets its own uploads directory
+async function uploadsDir() {
+  return path.join(await storeDir(), 'uploads')
+}
+
+export type AcceptedFile = { file: File; type: AttachmentType; bytes: Uint8Array }
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte)
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0))
+
+// Identifies the file from its first bytes instead of trusting the name or the browser's MIME type
+function sniffType(bytes: Uint8Array): AttachmentType | undefined {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif'
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp'
+  if (startsWith(bytes, ascii('%PDF-'))) return 'application/pdf'
+
+  // Anything else has to be valid UTF-8 without control bytes to count as text
+  if (bytes.includes(0)) return undefined
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    return 'text/plain'
+  } catch {
+    return undefined
+  }
+}
+
+// Other names browsers and operating systems give the same content
+const equivalentTypes: Partial<Record<AttachmentType, string[]>> = {
+  'image/jpeg': ['image/jpg', 'image/pjpeg'],
+  'application/pdf': ['application/x-pdf'],
+}
+
+// Whether the type the browser declared fits the sniffed content. Text files are
+// labelled after their extension (text/markdown, text/csv, application/json...),
+// so any text type matches; it's still stored and served as plain text.
+function declaredTypeMatches(declared: string, type: AttachmentType) {
+  if (type === 'text/plain') return declared.startsWith('text/') || declared === 'application/json'
+  return declared === type || (equivalentTypes[type]?.includes(declared) ?? false)
+}
+
+export async function validateAttachments(formData: FormData): Promise<{ files: AcceptedFile[]; error?: string }> {
+  // An empty file input still submits one nameless, empty file
+  const files = formData
+    .getAll(attachmentRules.field)
+    .filter((value): value is File => typeof value !== 'string' && value.size > 0)
+
+  if (files.length > attachmentRules.maxFiles) {
+    return { files: [], error: `Attach at most ${attachmentRules.maxFiles} files` }
+  }
+
+  const accepted: AcceptedFile[] = []
+  for (const file of files) {
+    if (file.size > attachmentRules.maxFileSize) {
+      return { files: [], error: `${file.name} is larger than ${formatBytes(attachmentRules.maxFileSize)}` }
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const type = sniffType(bytes)
+    if (!type) {
+      const allowed = Object.values(attachmentRules.types).join(', ')
+      return { files: [], error: `${file.name} is not an allowed file type (${allowed})` }
+    }
+    // e.g. an executable renamed to photo.png
+    const declared = file.type.split(';')[0].trim().toLowerCase()
+    if (declared && !declaredTypeMatches(declared, type)) {
+      return { files: [], error: `${file.name} is sent as ${declared} but its content is ${attachmentRules.types[type]}` }
+    }
+    accepted.push({ file, type, bytes })
+  }
+
+  return { files: accepted }
+}
+
+// Never use the client's file name as a path: keep letters, digits, dots and dashes
+function storedName(index: number, name: string) {
+  const safe = path.basename(name).replace(/[^\w.-]+/g, '_').replace(/^\.+/, '') || 'file'
+  return `${index + 1}-${safe}`.slice(0, 100)
+}
+
+export async function saveAttachments(submissionId: string, files: AcceptedFile[]): Promise<Attachment[]> {
+  if (files.length === 0) return []
+
+  const dir = path.join(await uploadsDir(), submissionId)
+  await fs.mkdir(dir, { recursive: true })
+
+  return Promise.all(
+    files.map(async ({ file, type, bytes }, index) => {
+      const name = storedName(index, file.name)
+      await fs.writeFile(path.join(dir, name), bytes)
+      return { name: file.name, size: file.size, type, url: `/server-actions/uploads/${submissionId}/${name}` }
+    })
+  )
+}
+
+// Callers look the attachment up in the submissions store first, so only stored files are readable
+export async function readAttachment(attachment: Attachment): Promise<Buffer> {
+  const [submissionId, name] = attachment.url.split('/').slice(-2)
+  return fs.readFile(path.join(await uploadsDir(), submissionId, name))
+}
+
+export async function clearUploads() {
+  await fs.rm(await uploadsDir(), { recursive: true, force: true })
+}
@@ -0,0 +1,27 @@
+import { getSubmission } from '../../../submissions'
+import { readAttachment } from '../../../uploads'
+
+// Serves the contact form's attachments. Only files recorded on a submission are
+// served, always with the sniffed type, so an upload can't become an HTML page.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ submissionId: string; file: string }> }
+) {
+  const { submissionId, file } = await params
+  const submission = await getSubmission(submissionId)
+  const attachment = submission?.attachments?.find((attachment) => attachment.url.endsWith(`/${file}`))
+
+  if (!attachment) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  const body = await readAttachment(attachment)
+  return new Response(new Uint8Array(body), {
+    headers: {
+      'Content-Type': attachment.type,
+      'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, no-store',
+    },
+  })
+}
@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('suspense-improvements')
+
+export default function SuspenseImprovementsLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="suspense-improvements">{children}</DemoShell>
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import { use, Suspense, useState, useEffect, useRef } from 'react'
-import Link from 'next/link'
+import { mockRequest } from '../lib/mock-network'
 
 // ============================================================================
 // DATA FETCHING UTILITIES
@@ -29,39 +29,27 @@ interface CommentData {
 }
 
 function fetchUserProfile(): Promise<UserData> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve({
-        id: 1,
-        name: 'Alex Johnson',
-        email: 'alex@example.com',
-        role: 'Senior Developer',
-      })
-    }, 1000)
-  })
+  return mockRequest('suspense-improvements/user', 1000, () => ({
+    id: 1,
+    name: 'Alex Johnson',
+    email: 'alex@example.com',
+    role: 'Senior Developer',
+  }))
 }
 
 function fetchPosts(): Promise<PostData[]> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve([
-        { id: 1, title: 'Understanding React 19', excerpt: 'Exploring new features...', likes: 42 },
-        { id: 2, title: 'Suspense Deep Dive', excerpt: 'How Suspense works...', likes: 38 },
-      ])
-    }, 2000)
-  })
+  return mockRequest('suspense-improvements/posts', 2000, () => [
+    { id: 1, title: 'Understanding React 19', excerpt: 'Exploring new features...', likes: 42 },
+    { id: 2, title: 'Suspense Deep Dive', excerpt: 'How Suspense works...', likes: 38 },
+  ])
 }
 
 function fetchComments(): Promise<CommentData[]> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve([
-        { id: 1, author: 'Sarah', text: 'Great article!', timestamp: '2 hours ago' },
-        { id: 2, author: 'Mike', text: 'Very informative', timestamp: '3 hours ago' },
-        { id: 3, author: 'Emma', text: 'Thanks for sharing', timestamp: '5 hours ago' },
-      ])
-    }, 3000)
-  })
+  return mockRequest('suspense-improvements/comments', 3000, () => [
+    { id: 1, author: 'Sarah', text: 'Great article!', timestamp: '2 hours ago' },
+    { id: 2, author: 'Mike', text: 'Very informative', timestamp: '3 hours ago' },
+    { id: 3, author: 'Emma', text: 'Thanks for sharing', timestamp: '5 hours ago' },
+  ])
 }
 
 // ============================================================================
@@ -460,11 +448,7 @@ export default function SuspenseImprovementsDemo() {
   }
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>Suspense Improvements in React 19</h1>
 
       <div className="demo-section">
@@ -581,7 +565,7 @@ export default function SuspenseImprovementsDemo() {
           to { transform: rotate(360deg); }
         }
       `}</style>
-    </div>
+    </>
   )
 }
 
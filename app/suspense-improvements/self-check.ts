@@ -0,0 +1,10 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// Both the React 18 and React 19 panels load all three resources, also after a reset
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.waitForText('Alex Johnson')
+  await page.waitForText('Suspense Deep Dive')
+  await page.waitForText('Thanks for sharing')
+  await page.click('🔄 Reset Demo')
+  await page.waitForText('Thanks for sharing')
+}
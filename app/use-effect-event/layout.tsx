@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('use-effect-event')
+
+export default function UseEffectEventLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="use-effect-event">{children}</DemoShell>
+}
@@ -1,7 +1,6 @@
 'use client'
 
 import { useState, useEffect, useRef, useCallback } from 'react'
-import Link from 'next/link'
 
 // Polyfill for useEffectEvent (React 19 experimental feature)
 // In production, import from 'react' when available
@@ -369,11 +368,7 @@ function NotificationDemo() {
 
 export default function UseEffectEventDemo() {
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        ← Back to Home
-      </Link>
-
+    <>
       <h1>
         <code>useEffectEvent()</code> Hook Demo
       </h1>
@@ -544,7 +539,7 @@ useEffect(() => {
           </p>
         </div>
       </div>
-    </div>
+    </>
   )
 }
 
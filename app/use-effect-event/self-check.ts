@@ -0,0 +1,14 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// The Effect Event reads the latest cart size without re-running the visit effect
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.waitForText('📊 Visited /home with 2 items in cart')
+  await page.click('➕ Add Item to Cart')
+  await page.waitForText('Shopping Cart (3 items)')
+  page.expect(
+    !page.document.body.textContent?.includes('Visited /home with 3 items in cart'),
+    'adding an item not to log another visit'
+  )
+  await page.click('/about')
+  await page.waitForText('📊 Visited /about with 3 items in cart')
+}
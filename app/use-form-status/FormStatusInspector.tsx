@@ -0,0 +1,171 @@
+'use client'
+
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { createPortal, useFormStatus } from 'react-dom'
+import { mockRequest } from '../lib/mock-network'
+import {
+  clearStatusLog,
+  getServerStatusEvents,
+  getStatusEvents,
+  recordStatus,
+  subscribeStatusLog,
+  type StatusEvent,
+} from './status-log'
+
+async function saveProfile(formData: FormData) {
+  await mockRequest('use-form-status/profile', 1500, () => formData)
+}
+
+async function postComment(formData: FormData) {
+  await mockRequest('use-form-status/comment', 1500, () => formData)
+}
+
+async function subscribe(formData: FormData) {
+  await mockRequest('use-form-status/subscribe', 1500, () => formData)
+}
+
+// Reports what useFormStatus returns where it's rendered, live and to the timeline
+function StatusProbe({ name }: { name: string }) {
+  const { pending, data, method, action } = useFormStatus()
+
+  useEffect(() => {
+    recordStatus(name, { pending, data, method, action })
+  }, [name, pending, data, method, action])
+
+  return (
+    <div
+      data-probe={name}
+      style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        gap: '0.5rem',
+        padding: '0.35rem 0.5rem',
+        border: `1px dashed ${pending ? 'var(--warning)' : 'var(--border)'}`,
+        borderRadius: '6px',
+        fontSize: '0.85rem',
+      }}
+    >
+      <span>🔎 {name}</span>
+      <strong style={{ color: pending ? 'var(--warning)' : '#666' }}>{pending ? 'pending' : 'idle'}</strong>
+    </div>
+  )
+}
+
+const formStyle = { display: 'flex', flexDirection: 'column', gap: '0.5rem' } as const
+
+function StatusTimeline() {
+  const events = useSyncExternalStore(subscribeStatusLog, getStatusEvents, getServerStatusEvents)
+  const start = events[0]?.at ?? 0
+  const cell = { padding: '0.35rem 0.5rem', verticalAlign: 'top' }
+
+  const describeData = (data: StatusEvent['data']) =>
+    data ? data.map(([name, value]) => `${name}=${JSON.stringify(value)}`).join(', ') : 'null'
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', margin: '1rem 0' }}>
+        <span style={{ color: '#666' }}>
+          {events.length === 0 ? 'Submit one of the forms to record its status changes.' : `${events.length} changes`}
+        </span>
+        <button onClick={clearStatusLog} disabled={events.length === 0}>
+          Clear timeline
+        </button>
+      </div>
+
+      {events.length > 0 && (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', borderBottom: '2px solid var(--border)' }}>
+                <th style={cell}>Time</th>
+                <th style={cell}>Probe</th>
+                <th style={cell}>pending</th>
+                <th style={cell}>method</th>
+                <th style={cell}>action</th>
+                <th style={cell}>data</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr
+                  key={event.id}
+                  data-event-probe={event.probe}
+                  data-event-pending={event.pending}
+                  style={{ borderBottom: '1px solid var(--border)' }}
+                >
+                  <td style={{ ...cell, fontFamily: 'monospace', whiteSpace: 'nowrap' }}>
+                    +{Math.round(event.at - start)} ms
+                  </td>
+                  <td style={cell}>{event.probe}</td>
+                  <td style={{ ...cell, color: event.pending ? 'var(--warning)' : undefined }}>
+                    {String(event.pending)}
+                  </td>
+                  <td style={{ ...cell, fontFamily: 'monospace' }}>{event.method ?? 'null'}</td>
+                  <td style={{ ...cell, fontFamily: 'monospace' }}>{event.action ?? 'null'}</td>
+                  <td style={{ ...cell, fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    {describeData(event.data)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Form A and form C are siblings. Form B is rendered by form A's JSX but portaled
+// out of it in the DOM, since a <form> can't contain another <form>.
+export function FormStatusInspector() {
+  const [portalTarget, setPortalTarget] = useState<HTMLDivElement | null>(null)
+
+  return (
+    <div>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(260px, 1fr))', gap: '1rem' }}>
+        <div className="card">
+          <h4 style={{ marginBottom: '0.5rem' }}>Form A: profile</h4>
+          <form action={saveProfile} style={formStyle}>
+            <input id="inspector-name" name="name" placeholder="Name" required />
+            <StatusProbe name="Inside form A" />
+            <button type="submit">Save profile</button>
+
+            {portalTarget &&
+              createPortal(
+                <div style={formStyle}>
+                  <StatusProbe name="Form A's child, portaled out" />
+                  <form action={postComment} style={formStyle}>
+                    <input id="inspector-comment" name="comment" placeholder="Comment" required />
+                    <StatusProbe name="Inside form B (nested in A)" />
+                    <button type="submit">Post comment</button>
+                  </form>
+                </div>,
+                portalTarget
+              )}
+          </form>
+        </div>
+
+        <div className="card">
+          <h4 style={{ marginBottom: '0.5rem' }}>Form B: comment (portal target)</h4>
+          <div ref={setPortalTarget} />
+        </div>
+
+        <div className="card">
+          <h4 style={{ marginBottom: '0.5rem' }}>Form C: newsletter (sibling)</h4>
+          <form action={subscribe} style={formStyle}>
+            <input id="inspector-email" name="email" type="email" placeholder="Email" required />
+            <StatusProbe name="Inside form C" />
+            <button type="submit">Subscribe</button>
+          </form>
+        </div>
+
+        <div className="card">
+          <h4 style={{ marginBottom: '0.5rem' }}>No form</h4>
+          <StatusProbe name="Outside any form" />
+        </div>
+      </div>
+
+      <StatusTimeline />
+    </div>
+  )
+}
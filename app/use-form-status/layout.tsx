@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('use-form-status')
+
+export default function UseFormStatusLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="use-form-status">{children}</DemoShell>
+}
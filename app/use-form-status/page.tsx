@@ -1,8 +1,21 @@
 'use client'
 
 import { useFormStatus } from 'react-dom'
-import Link from 'next/link'
-import { useState } from 'react'
+import { useActionState } from 'react'
+import { mockRequest } from '../lib/mock-network'
+import { FormStatusInspector } from './FormStatusInspector'
+import { signupForm, type SignupState } from './schema'
+
+const submitSignup = signupForm.action(async (values, formData): Promise<SignupState> => {
+  // Simulate server processing
+  await mockRequest('use-form-status/submit', 2000, () => formData)
+
+  return {
+    ...signupForm.initialState,
+    status: 'success',
+    message: `Form submitted! Name: ${values.name}, Email: ${values.email}`,
+  }
+})
 
 function SubmitButton() {
   const { pending, data, method, action } = useFormStatus()
@@ -46,24 +59,10 @@ function FormStatusInfo() {
 }
 
 export default function UseFormStatusDemo() {
-  const [result, setResult] = useState<string | null>(null)
-
-  async function handleSubmit(formData: FormData) {
-    // Simulate server processing
-    await new Promise((resolve) => setTimeout(resolve, 2000))
-
-    const name = formData.get('name')
-    const email = formData.get('email')
-
-    setResult(`Form submitted! Name: ${name}, Email: ${email}`)
-  }
+  const [state, formAction] = useActionState(submitSignup, signupForm.initialState)
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>useFormStatus Hook Demo</h1>
 
       <div className="demo-section">
@@ -91,7 +90,7 @@ export default function UseFormStatusDemo() {
         </p>
 
         <form
-          action={handleSubmit}
+          action={formAction}
           style={{
             display: 'flex',
             flexDirection: 'column',
@@ -100,46 +99,58 @@ export default function UseFormStatusDemo() {
             marginTop: '1rem',
           }}
         >
-          <div>
-            <label htmlFor="name" style={{ display: 'block', marginBottom: '0.5rem' }}>
-              Name:
-            </label>
-            <input
-              id="name"
-              name="name"
-              type="text"
-              placeholder="Enter your name"
-              required
-              style={{ width: '100%' }}
-            />
-          </div>
-
-          <div>
-            <label htmlFor="email" style={{ display: 'block', marginBottom: '0.5rem' }}>
-              Email:
-            </label>
-            <input
-              id="email"
-              name="email"
-              type="email"
-              placeholder="Enter your email"
-              required
-              style={{ width: '100%' }}
-            />
-          </div>
+          {signupForm.fields.map((field) => (
+            <div key={field}>
+              <label htmlFor={field} style={{ display: 'block', marginBottom: '0.5rem' }}>
+                {signupForm.schema[field].label}:
+              </label>
+              <input
+                {...signupForm.attributes(field)}
+                // Refills the form when the submission was rejected
+                defaultValue={state.values[field]}
+                placeholder={`Enter your ${field}`}
+                aria-invalid={state.fieldErrors[field] ? true : undefined}
+                style={{ width: '100%' }}
+              />
+              {state.fieldErrors[field] && (
+                <div style={{ color: 'var(--error)', fontSize: '0.9rem', marginTop: '0.25rem' }}>
+                  {state.fieldErrors[field]}
+                </div>
+              )}
+            </div>
+          ))}
 
           {/* These components can access form status */}
           <SubmitButton />
           <FormStatusInfo />
         </form>
 
-        {result && (
-          <div className="success" style={{ marginTop: '1rem' }}>
-            {result}
+        {state.message && (
+          <div className={state.status === 'error' ? 'error' : 'success'} style={{ marginTop: '1rem' }}>
+            {state.message}
           </div>
         )}
       </div>
 
+      <div className="demo-section">
+        <h2>Which Form Does useFormStatus Report?</h2>
+        <p>
+          <code>useFormStatus</code> only reports the closest <code>&lt;form&gt;</code> above it in the React tree. A
+          component next to a form, or the component that renders the form, always sees <code>pending: false</code>.
+          Each 🔎 probe below calls <code>useFormStatus</code> where it&apos;s rendered, and the timeline records every
+          change it reports, with the submitted FormData.
+        </p>
+        <p style={{ marginTop: '0.5rem' }}>
+          Submit the forms and compare the probes. Form B is rendered inside form A&apos;s JSX but portaled out in the
+          DOM, since HTML forms can&apos;t nest. The probe that&apos;s portaled out on its own still reports form A:
+          the React tree decides, not the DOM. And until form B has been submitted once, React hasn&apos;t attached a
+          status to it yet, so the probe inside it also reports form A.
+        </p>
+        <div style={{ marginTop: '1rem' }}>
+          <FormStatusInspector />
+        </div>
+      </div>
+
       <div className="demo-section">
         <h2>Code Example</h2>
         <pre>
@@ -242,6 +253,6 @@ export function MyForm() {
           <li><strong>Simple API:</strong> Easy to use and understand</li>
         </ul>
       </div>
-    </div>
+    </>
   )
 }
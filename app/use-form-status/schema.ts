@@ -0,0 +1,10 @@
+import { defineForm, type FormActionState } from '../lib/form-schema'
+
+// The interactive demo's form. Its action runs in the browser, but parses and
+// validates with the same helper as the server actions in the other form demos.
+export const signupForm = defineForm({
+  name: { label: 'Name', type: 'text', required: true, maxLength: 80 },
+  email: { label: 'Email', type: 'email', required: true, maxLength: 120 },
+})
+
+export type SignupState = FormActionState<typeof signupForm.schema>
@@ -0,0 +1,31 @@
+import type { SelfCheckPage, SelfCheckScenario } from '../lib/self-check'
+
+function recorded(page: SelfCheckPage, probe: string, pending: boolean) {
+  return Array.from(page.document.querySelectorAll<HTMLElement>('[data-event-probe]')).some(
+    (row) => row.dataset.eventProbe === probe && row.dataset.eventPending === String(pending)
+  )
+}
+
+// Child components see the pending submission and its data, then the result renders.
+// The inspector records each probe's status: only probes under the submitted form change.
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.fill('#name', 'Ada')
+  await page.fill('#email', 'ada@example.com')
+  await page.click('Submit Form')
+  await page.waitForText('Form Status (from child component):')
+  await page.waitForText('"name":"Ada"')
+  await page.waitForText('Form submitted! Name: Ada, Email: ada@example.com')
+  await page.waitForText('✓ Form is ready')
+
+  await page.fill('#inspector-email', 'ada@example.com')
+  await page.click('Subscribe')
+  await page.waitFor('form C to report pending', () => recorded(page, 'Inside form C', true))
+  await page.waitFor('form C to report idle again', () => recorded(page, 'Inside form C', false))
+  page.expect(!recorded(page, 'Inside form A', true), 'form A not to report the sibling form')
+  page.expect(!recorded(page, 'Outside any form', true), 'a probe outside any form never to be pending')
+
+  await page.fill('#inspector-name', 'Ada')
+  await page.click('Save profile')
+  await page.waitFor('the portaled probe to report form A', () => recorded(page, "Form A's child, portaled out", true))
+  await page.click('Clear timeline')
+}
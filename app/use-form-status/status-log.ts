@@ -0,0 +1,91 @@
+// Records what every useFormStatus probe on the page reports, each time it
+// changes, so the inspector can show them side by side on one timeline.
+
+export type FormStatusSnapshot = {
+  pending: boolean
+  data: FormData | null
+  method: string | null
+  action: string | ((formData: FormData) => void | Promise<void>) | null
+}
+
+export type StatusEvent = {
+  id: number
+  // Which probe reported it
+  probe: string
+  // performance.now() when the change was committed
+  at: number
+  pending: boolean
+  method: string | null
+  action: string | null
+  // The FormData entries as submitted; files by name
+  data: [string, string][] | null
+}
+
+const MAX_EVENTS = 200
+
+let events: StatusEvent[] = []
+let nextId = 1
+// The last status each probe reported, to skip repeats
+const lastStatus = new Map<string, FormStatusSnapshot>()
+const listeners = new Set<() => void>()
+
+function notify() {
+  queueMicrotask(() => listeners.forEach((listener) => listener()))
+}
+
+export function subscribeStatusLog(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getStatusEvents(): StatusEvent[] {
+  return events
+}
+
+const noEvents: StatusEvent[] = []
+export const getServerStatusEvents = () => noEvents
+
+export function clearStatusLog() {
+  events = []
+  notify()
+}
+
+function describeAction(action: FormStatusSnapshot['action']) {
+  if (typeof action === 'function') return action.name || 'anonymous function'
+  return action
+}
+
+function snapshotData(data: FormData | null): [string, string][] | null {
+  if (!data) return null
+  return Array.from(data.entries(), ([name, value]) => [name, typeof value === 'string' ? value : `File ${value.name}`])
+}
+
+// A probe's first report is its idle state on mount, which isn't a transition
+export function recordStatus(probe: string, status: FormStatusSnapshot) {
+  const last = lastStatus.get(probe)
+  lastStatus.set(probe, status)
+  if (!last && !status.pending) return
+  if (
+    last &&
+    last.pending === status.pending &&
+    last.data === status.data &&
+    last.method === status.method &&
+    last.action === status.action
+  ) {
+    return
+  }
+
+  const event: StatusEvent = {
+    id: nextId++,
+    probe,
+    at: performance.now(),
+    pending: status.pending,
+    method: status.method,
+    action: describeAction(status.action),
+    data: snapshotData(status.data),
+  }
+  events = [...events, event].slice(-MAX_EVENTS)
+  notify()
+}
@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('use-hook')
+
+export default function UseHookLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="use-hook">{children}</DemoShell>
+}
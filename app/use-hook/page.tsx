@@ -1,19 +1,15 @@
 'use client'
 
 import { use, Suspense, useState } from 'react'
-import Link from 'next/link'
+import { mockRequest } from '../lib/mock-network'
 
 // Simulate API call
 function fetchData(id: number): Promise<{ id: number; title: string; content: string }> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve({
-        id,
-        title: `Post ${id}`,
-        content: `This is the content for post ${id}. The use() hook allows us to read this promise directly in the component!`,
-      })
-    }, 1000)
-  })
+  return mockRequest('use-hook/post', 1000, () => ({
+    id,
+    title: `Post ${id}`,
+    content: `This is the content for post ${id}. The use() hook allows us to read this promise directly in the component!`,
+  }))
 }
 
 function Post({ postPromise }: { postPromise: Promise<any> }) {
@@ -39,11 +35,7 @@ export default function UseHookDemo() {
   }
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>use() Hook Demo</h1>
 
       <div className="demo-section">
@@ -122,6 +114,6 @@ function App() {
           <li><strong>Better Error Handling:</strong> Integrates with Error Boundaries</li>
         </ul>
       </div>
-    </div>
+    </>
   )
 }
@@ -0,0 +1,10 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// Switching posts suspends on a new promise and renders the resolved post
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.waitForText('Post ID: 1')
+  await page.click('Load Post 2')
+  await page.waitForText('Post ID: 2')
+  await page.click('Load Post 3')
+  await page.waitForText('Post ID: 3')
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import type { QueuedMutation } from './offline-queue'
+import type { Todo } from './todos'
+
+// A queued change the server didn't apply when it was replayed
+export type Conflict = {
+  mutation: QueuedMutation
+  message: string
+  // What the server has now, when the todo still exists
+  todo?: Todo
+}
+
+export function describeMutation(mutation: QueuedMutation) {
+  switch (mutation.type) {
+    case 'toggle':
+      return `mark "${mutation.text}" ${mutation.completed ? 'done' : 'open'}`
+    case 'add':
+      return `add "${mutation.text}"`
+    case 'delete':
+      return `delete "${mutation.text}"`
+    case 'reorder':
+      return `move "${mutation.text}"`
+  }
+}
+
+// The queued changes while offline or replaying, and the ones that conflicted
+export function OfflineQueue({
+  offline,
+  queue,
+  conflicts,
+  onKeepMine,
+  onDismiss,
+}: {
+  offline: boolean
+  queue: QueuedMutation[]
+  conflicts: Conflict[]
+  onKeepMine: (conflict: Conflict) => void
+  onDismiss: (conflict: Conflict) => void
+}) {
+  if (!offline && queue.length === 0 && conflicts.length === 0) return null
+
+  return (
+    <div style={{ maxWidth: '500px', marginBottom: '1rem' }}>
+      {(offline || queue.length > 0) && (
+        <div className="card" style={{ marginBottom: '1rem', borderColor: 'var(--warning)' }}>
+          <strong>
+            {offline
+              ? `📴 Offline: ${queue.length} ${queue.length === 1 ? 'change' : 'changes'} queued`
+              : `Replaying ${queue.length} queued ${queue.length === 1 ? 'change' : 'changes'}...`}
+          </strong>
+          {queue.length > 0 && (
+            <ol style={{ margin: '0.5rem 0 0 1.5rem', fontSize: '0.9rem' }}>
+              {queue.map((mutation) => (
+                <li key={mutation.id}>{describeMutation(mutation)}</li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      {conflicts.map((conflict) => {
+        const { mutation, todo } = conflict
+        // Only a toggle can be applied again on top of what the server has now
+        const canKeepMine = mutation.type === 'toggle' && todo !== undefined
+        return (
+          <div key={mutation.id} className="error" style={{ marginBottom: '0.5rem' }}>
+            <strong>Conflict.</strong> Couldn&apos;t {describeMutation(mutation)}: {conflict.message}.
+            {todo && ` The server has it ${todo.completed ? 'done' : 'open'}.`}
+            <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+              {canKeepMine && <button onClick={() => onKeepMine(conflict)}>Keep mine</button>}
+              <button onClick={() => onDismiss(conflict)}>{canKeepMine ? "Keep the server's" : 'Dismiss'}</button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,503 @@
+'use client'
+
+import { useEffect, useOptimistic, useRef, useState, useTransition } from 'react'
+import {
+  addTodo,
+  deleteTodo,
+  reorderTodos,
+  resetTodosAction,
+  setTodoCompleted,
+  toggleFromAnotherDevice,
+  updateServerSettings,
+  type MutationResult,
+} from './actions'
+import { OfflineQueue, describeMutation, type Conflict } from './OfflineQueue'
+import {
+  loadQueue,
+  readOfflineSwitch,
+  removeQueued,
+  saveQueued,
+  writeOfflineSwitch,
+  type QueuedMutation,
+  type TempId,
+} from './offline-queue'
+import { ResponseTimeline, type TimelineEntry } from './ResponseTimeline'
+import type { ServerSettings, Todo } from './todos'
+
+const latencies = [500, 1500, 3000]
+
+const failureRates = [
+  { label: 'Never fail', value: 0 },
+  { label: 'Fail 50%', value: 0.5 },
+  { label: 'Always fail', value: 1 },
+]
+
+// How a toggle picks its new value and whether the server may drop late requests
+type ConflictHandling = 'naive' | 'sequenced'
+
+type TodoRow = Omit<Todo, 'id'> & {
+  id: number | TempId
+  // Changed on this client, not confirmed by the server yet
+  pending?: boolean
+}
+
+type OptimisticAction =
+  | { type: 'add'; id: TempId; text: string }
+  | { type: 'toggle'; id: number; completed: boolean }
+  | { type: 'delete'; id: number }
+  | { type: 'reorder'; ids: number[]; movedId: number }
+
+let nextTempId = 1
+let nextEntryId = 1
+let lastSequence = 0
+
+// A timestamp keeps growing across reloads, so it works as a sequence number here
+function nextSequence() {
+  lastSequence = Math.max(Date.now(), lastSequence + 1)
+  return lastSequence
+}
+
+// Applied on top of the saved todos for as long as the transition that queued the action runs
+function applyOptimistic(state: TodoRow[], action: OptimisticAction): TodoRow[] {
+  switch (action.type) {
+    case 'add':
+      return [...state, { id: action.id, text: action.text, completed: false, pending: true }]
+    case 'toggle':
+      return state.map((todo) =>
+        todo.id === action.id ? { ...todo, completed: action.completed, pending: true } : todo
+      )
+    case 'delete':
+      return state.filter((todo) => todo.id !== action.id)
+    case 'reorder': {
+      // Rows that are still being added aren't in `ids` and stay at the end
+      const position = (todo: TodoRow) => {
+        const index = typeof todo.id === 'number' ? action.ids.indexOf(todo.id) : -1
+        return index === -1 ? action.ids.length : index
+      }
+      return state
+        .toSorted((a, b) => position(a) - position(b))
+        .map((todo) => (todo.id === action.movedId ? { ...todo, pending: true } : todo))
+    }
+  }
+}
+
+function toOptimisticAction(mutation: QueuedMutation): OptimisticAction {
+  switch (mutation.type) {
+    case 'toggle':
+      return { type: 'toggle', id: mutation.todoId, completed: mutation.completed }
+    case 'add':
+      return { type: 'add', id: mutation.tempId, text: mutation.text }
+    case 'delete':
+      return { type: 'delete', id: mutation.todoId }
+    case 'reorder':
+      return { type: 'reorder', ids: mutation.ids, movedId: mutation.todoId }
+  }
+}
+
+function sendQueued(mutation: QueuedMutation): Promise<MutationResult> {
+  switch (mutation.type) {
+    case 'toggle':
+      return setTodoCompleted(mutation.todoId, mutation.completed, {
+        sequence: mutation.id,
+        expected: mutation.expected,
+      })
+    case 'add':
+      return addTodo(mutation.text)
+    case 'delete':
+      return deleteTodo(mutation.todoId)
+    case 'reorder':
+      return reorderTodos(mutation.ids)
+  }
+}
+
+// `todos` is what the server has saved: the page's props, refreshed by revalidatePath
+export function OptimisticTodos({ todos, settings }: { todos: Todo[]; settings: ServerSettings }) {
+  const [offline, setOffline] = useState(false)
+  const [queue, setQueue] = useState<QueuedMutation[]>([])
+  const [conflicts, setConflicts] = useState<Conflict[]>([])
+  const replaying = useRef(false)
+
+  // Queued changes stay pending until they're replayed, however many transitions that takes
+  const queuedTodos = queue.reduce<TodoRow[]>(
+    (state, mutation) => applyOptimistic(state, toOptimisticAction(mutation)),
+    todos
+  )
+  const [optimisticTodos, setOptimisticTodos] = useOptimistic(queuedTodos, applyOptimistic)
+
+  const [isPending, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+  const [draggedId, setDraggedId] = useState<number | null>(null)
+  // Server ID -> the temporary ID it replaced. Keeps the row's React key stable
+  // when the confirmed todo takes the optimistic row's place.
+  const [clientKeys, setClientKeys] = useState<Record<number, TempId>>({})
+  const [conflictHandling, setConflictHandling] = useState<ConflictHandling>('sequenced')
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([])
+
+  // Sends the queued changes one at a time, in the order they were made. Each one
+  // leaves the queue in the same transition that brings its saved result, so the
+  // row doesn't flash back to the old value in between.
+  const replay = (mutations: QueuedMutation[]) => {
+    if (replaying.current || mutations.length === 0) return
+    replaying.current = true
+
+    startTransition(async () => {
+      try {
+        for (const mutation of mutations) {
+          const result = await sendQueued(mutation)
+          await removeQueued(mutation.id)
+
+          startTransition(() => {
+            setQueue((queue) => queue.filter((queued) => queued.id !== mutation.id))
+            if (mutation.type === 'add' && result.status === 'success' && result.todo) {
+              const { todo } = result
+              setClientKeys((keys) => ({ ...keys, [todo.id]: mutation.tempId }))
+            }
+          })
+          if (result.status !== 'success') {
+            const todo = result.status === 'conflict' ? result.todo : undefined
+            setConflicts((conflicts) => [...conflicts, { mutation, message: result.message, todo }])
+          }
+        }
+      } catch {
+        setError("Couldn't reach the server; the remaining changes stay queued")
+      } finally {
+        replaying.current = false
+      }
+    })
+  }
+
+  // The latest restore for the mount effect below, so it sees this render's state
+  // without re-running. A ref rather than useEffectEvent, which the React that
+  // ships with Next 15.5 doesn't export.
+  const restoreQueue = useRef<(stored: QueuedMutation[], isOffline: boolean) => void>(() => {})
+  useEffect(() => {
+    restoreQueue.current = (stored, isOffline) => {
+      setOffline(isOffline)
+      setQueue(stored)
+      if (!isOffline) replay(stored)
+    }
+  })
+
+  useEffect(() => {
+    const isOffline = readOfflineSwitch()
+    loadQueue().then(
+      (stored) => restoreQueue.current(stored, isOffline),
+      () => restoreQueue.current([], isOffline)
+    )
+  }, [])
+
+  const changeOffline = (next: boolean) => {
+    setOffline(next)
+    writeOfflineSwitch(next)
+    if (!next) replay(queue)
+  }
+
+  // Offline, a change goes to the queue instead of the server and shows as pending
+  const enqueue = (mutation: QueuedMutation) => {
+    setQueue((queue) => [...queue, mutation])
+    saveQueued(mutation).catch(() => setError(`Couldn't store "${describeMutation(mutation)}"; it's lost on reload`))
+  }
+
+  const rowKey = (todo: TodoRow) => (typeof todo.id === 'number' ? (clientKeys[todo.id] ?? `todo-${todo.id}`) : todo.id)
+
+  // Shows `action` until the server answers. On failure nothing was saved: when the
+  // transition ends, useOptimistic goes back to `todos`, which still holds the old value.
+  const mutate = (
+    action: OptimisticAction,
+    description: string,
+    save: () => Promise<MutationResult>,
+    onResult?: (result: MutationResult) => void
+  ) => {
+    startTransition(async () => {
+      setOptimisticTodos(action)
+      const result = await save()
+      setError(result.status !== 'success' ? `Couldn't ${description}: ${result.message}` : null)
+      onResult?.(result)
+    })
+  }
+
+  const toggleTodo = (id: number) => {
+    const sequenced = offline || conflictHandling === 'sequenced'
+    // Naive: `todos` is the committed state, without the clicks still in flight, so
+    // two quick clicks both read "open" and both ask for "done". The row shows what
+    // the user sees, optimistic changes included.
+    const todo = (sequenced ? optimisticTodos : todos).find((t) => t.id === id)
+    if (!todo) return
+
+    const completed = !todo.completed
+    if (offline) {
+      enqueue({ id: nextSequence(), type: 'toggle', todoId: id, text: todo.text, completed, expected: todo.completed })
+      return
+    }
+
+    const sequence = sequenced ? nextSequence() : undefined
+    const entryId = nextEntryId++
+    setTimeline((entries) => [...entries, { id: entryId, todoId: id, text: todo.text, sequence, optimistic: completed }])
+
+    const recordResponse = (result: MutationResult) =>
+      setTimeline((entries) => {
+        const arrival = entries.filter((entry) => entry.response).length + 1
+        const response =
+          result.status === 'success'
+            ? { arrival, completed: result.todo?.completed, stale: result.stale }
+            : { arrival, error: result.message }
+        return entries.map((entry) => (entry.id === entryId ? { ...entry, response } : entry))
+      })
+
+    mutate(
+      { type: 'toggle', id, completed },
+      `update "${todo.text}"`,
+      () => setTodoCompleted(id, completed, { sequence }),
+      recordResponse
+    )
+  }
+
+  const addTodoFromForm = (formData: FormData) => {
+    const text = String(formData.get('text') ?? '').trim()
+    if (!text) return
+
+    // Queued adds keep their temporary IDs across reloads; don't hand those out again
+    for (const mutation of queue) {
+      if (mutation.type === 'add') nextTempId = Math.max(nextTempId, Number(mutation.tempId.slice(5)) + 1)
+    }
+    const tempId: TempId = `temp-${nextTempId++}`
+    if (offline) {
+      enqueue({ id: nextSequence(), type: 'add', tempId, text })
+      return
+    }
+
+    mutate({ type: 'add', id: tempId, text }, `add "${text}"`, () => addTodo(text), (result) => {
+      const todo = result.status === 'success' && result.todo
+      if (todo) setClientKeys((keys) => ({ ...keys, [todo.id]: tempId }))
+    })
+  }
+
+  const removeTodo = (todo: TodoRow & { id: number }) => {
+    if (offline) {
+      enqueue({ id: nextSequence(), type: 'delete', todoId: todo.id, text: todo.text })
+      return
+    }
+    mutate({ type: 'delete', id: todo.id }, `delete "${todo.text}"`, () => deleteTodo(todo.id))
+  }
+
+  // Moves a todo to `toIndex` among the rows the server knows about
+  const moveTodo = (id: number, toIndex: number) => {
+    const ids = optimisticTodos.flatMap((todo) => (typeof todo.id === 'number' ? [todo.id] : []))
+    const from = ids.indexOf(id)
+    if (from === -1 || from === toIndex || toIndex < 0 || toIndex >= ids.length) return
+
+    const order = ids.toSpliced(from, 1).toSpliced(toIndex, 0, id)
+    const text = optimisticTodos.find((todo) => todo.id === id)?.text ?? ''
+    if (offline) {
+      enqueue({ id: nextSequence(), type: 'reorder', todoId: id, text, ids: order })
+      return
+    }
+    mutate({ type: 'reorder', ids: order, movedId: id }, `move "${text}"`, () => reorderTodos(order))
+  }
+
+  // Applies a conflicting toggle again, this time without checking the server's value
+  const keepMine = (conflict: Conflict) => {
+    setConflicts((conflicts) => conflicts.filter((c) => c !== conflict))
+    const { mutation } = conflict
+    if (mutation.type !== 'toggle') return
+    mutate({ type: 'toggle', id: mutation.todoId, completed: mutation.completed }, describeMutation(mutation), () =>
+      setTodoCompleted(mutation.todoId, mutation.completed, { sequence: nextSequence() })
+    )
+  }
+
+  const changeSettings = (changes: Partial<ServerSettings>) =>
+    startTransition(() => updateServerSettings({ ...settings, ...changes }))
+
+  const savedIds = optimisticTodos.flatMap((todo) => (typeof todo.id === 'number' ? [todo.id] : []))
+  const iconButton = { padding: '0.2rem 0.5rem', fontSize: '0.85rem' }
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '1rem' }}>
+        <label>
+          Server latency:{' '}
+          <select
+            id="server-latency"
+            value={settings.latencyMs}
+            onChange={(e) => changeSettings({ latencyMs: Number(e.target.value) })}
+          >
+            {latencies.map((latency) => (
+              <option key={latency} value={latency}>
+                {latency}ms
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Server failures:{' '}
+          <select
+            id="server-failures"
+            value={settings.failureRate}
+            onChange={(e) => changeSettings({ failureRate: Number(e.target.value) })}
+          >
+            {failureRates.map((rate) => (
+              <option key={rate.value} value={rate.value}>
+                {rate.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <input
+            id="out-of-order"
+            type="checkbox"
+            checked={settings.outOfOrder}
+            onChange={(e) => changeSettings({ outOfOrder: e.target.checked })}
+          />{' '}
+          Out-of-order responses
+        </label>
+        <label>
+          Conflicts:{' '}
+          <select
+            id="conflict-handling"
+            value={conflictHandling}
+            onChange={(e) => setConflictHandling(e.target.value as ConflictHandling)}
+          >
+            <option value="sequenced">Sequence numbers (fixed)</option>
+            <option value="naive">Stale closure, last response wins</option>
+          </select>
+        </label>
+        <label>
+          <input id="offline" type="checkbox" checked={offline} onChange={(e) => changeOffline(e.target.checked)} />{' '}
+          Offline
+        </label>
+        <button
+          onClick={() => {
+            setTimeline([])
+            startTransition(() => resetTodosAction())
+          }}
+        >
+          Reset todos
+        </button>
+      </div>
+
+      <form action={addTodoFromForm} style={{ display: 'flex', gap: '0.5rem', maxWidth: '500px', marginBottom: '1rem' }}>
+        <input id="new-todo" name="text" placeholder="New todo" required maxLength={100} style={{ flex: 1 }} />
+        <button type="submit">Add</button>
+      </form>
+
+      {isPending && (
+        <div style={{ padding: '0.5rem', background: 'rgba(0, 112, 243, 0.1)', borderRadius: '8px', marginBottom: '1rem' }}>
+          ⏳ Syncing with server...
+        </div>
+      )}
+
+      <OfflineQueue
+        offline={offline}
+        queue={queue}
+        conflicts={conflicts}
+        onKeepMine={keepMine}
+        onDismiss={(conflict) => setConflicts((conflicts) => conflicts.filter((c) => c !== conflict))}
+      />
+      {offline && todos.length > 0 && (
+        <button
+          onClick={() => startTransition(() => toggleFromAnotherDevice(todos[0].id))}
+          style={{ marginBottom: '1rem' }}
+        >
+          Another device toggles &quot;{todos[0].text}&quot;
+        </button>
+      )}
+
+      {error && (
+        <div className="error" style={{ marginBottom: '1rem' }}>
+          <strong>Reverted.</strong> {error}
+        </div>
+      )}
+
+      <div style={{ maxWidth: '500px' }}>
+        {optimisticTodos.map((todo) => {
+          const { id } = todo
+          // No server ID yet: nothing to toggle, move or delete on the server
+          const isSaved = typeof id === 'number'
+          const index = isSaved ? savedIds.indexOf(id) : -1
+
+          return (
+            <div
+              key={rowKey(todo)}
+              data-todo-id={id}
+              onClick={() => isSaved && toggleTodo(id)}
+              draggable={isSaved}
+              onDragStart={() => isSaved && setDraggedId(id)}
+              onDragOver={(e) => draggedId !== null && isSaved && e.preventDefault()}
+              onDrop={() => draggedId !== null && moveTodo(draggedId, index)}
+              onDragEnd={() => setDraggedId(null)}
+              style={{
+                padding: '1rem',
+                margin: '0.5rem 0',
+                background: 'var(--card-bg)',
+                border: `2px solid ${todo.pending ? 'var(--warning)' : 'var(--border)'}`,
+                borderRadius: '8px',
+                cursor: isSaved ? 'pointer' : 'default',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '1rem',
+                transition: 'all 0.2s',
+                opacity: draggedId === id ? 0.4 : todo.completed ? 0.6 : 1,
+              }}
+            >
+              <span aria-hidden="true" style={{ cursor: isSaved ? 'grab' : 'default', color: '#999' }}>
+                ⠿
+              </span>
+              <input
+                type="checkbox"
+                checked={todo.completed}
+                onChange={() => {}}
+                disabled={!isSaved}
+                style={{ width: '20px', height: '20px', cursor: 'pointer' }}
+              />
+              <span
+                style={{
+                  textDecoration: todo.completed ? 'line-through' : 'none',
+                  flex: 1,
+                }}
+              >
+                {todo.text}
+              </span>
+              <code style={{ fontSize: '0.8rem', color: '#666' }}>{isSaved ? `#${id}` : id}</code>
+              {todo.pending && (
+                <span className="badge" style={{ margin: 0, background: 'var(--warning)' }}>
+                  pending
+                </span>
+              )}
+              {isSaved && (
+                <span style={{ display: 'flex', gap: '0.25rem' }} onClick={(e) => e.stopPropagation()}>
+                  <button
+                    onClick={() => moveTodo(id, index - 1)}
+                    disabled={index === 0}
+                    aria-label={`Move "${todo.text}" up`}
+                    style={iconButton}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => moveTodo(id, index + 1)}
+                    disabled={index === savedIds.length - 1}
+                    aria-label={`Move "${todo.text}" down`}
+                    style={iconButton}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => removeTodo({ ...todo, id })}
+                    aria-label={`Delete "${todo.text}"`}
+                    style={iconButton}
+                  >
+                    ✕
+                  </button>
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <h3 style={{ marginTop: '1.5rem' }}>Response Timeline</h3>
+      <ResponseTimeline entries={timeline} todos={todos} isPending={isPending} onClear={() => setTimeline([])} />
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import type { Todo } from './todos'
+
+// One click on a todo, and what the server answered
+export type TimelineEntry = {
+  id: number
+  todoId: number
+  text: string
+  // Sent with the request when sequencing is on
+  sequence?: number
+  // What the row showed right after the click
+  optimistic: boolean
+  response?: {
+    // 1 for the first response to arrive, 2 for the second...
+    arrival: number
+    // The saved value after the server handled the request
+    completed?: boolean
+    // Dropped because a newer change was already saved
+    stale?: boolean
+    error?: string
+  }
+}
+
+const cell = { padding: '0.35rem 0.5rem' }
+
+const describeValue = (completed: boolean | undefined) =>
+  completed === undefined ? '—' : completed ? '✓ done' : '○ open'
+
+const ordinal = (n: number) => `${n}${['th', 'st', 'nd', 'rd'][n % 100 >= 11 && n % 100 <= 13 ? 0 : n % 10] ?? 'th'}`
+
+// Per todo: every click in order, when its response arrived, and what ended up committed.
+// `todos` is the committed state; it's only final once no transition is pending.
+export function ResponseTimeline({
+  entries,
+  todos,
+  isPending,
+  onClear,
+}: {
+  entries: TimelineEntry[]
+  todos: Todo[]
+  isPending: boolean
+  onClear: () => void
+}) {
+  const todoIds = [...new Set(entries.map((entry) => entry.todoId))]
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+        <span style={{ color: '#666' }}>
+          {entries.length === 0 ? 'Click a todo several times quickly to record its requests.' : `${entries.length} clicks`}
+        </span>
+        <button onClick={onClear} disabled={entries.length === 0}>
+          Clear timeline
+        </button>
+      </div>
+
+      {todoIds.map((todoId) => {
+        const clicks = entries.filter((entry) => entry.todoId === todoId)
+        const lastClick = clicks[clicks.length - 1]
+        const waiting = clicks.filter((entry) => !entry.response).length
+        const committed = todos.find((todo) => todo.id === todoId)
+        const settled = waiting === 0 && !isPending && committed
+
+        return (
+          <div key={todoId} className="card" data-timeline-todo={todoId} style={{ marginBottom: '1rem' }}>
+            <strong>{lastClick.text}</strong>
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '0.5rem', fontSize: '0.9rem' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', borderBottom: '2px solid var(--border)' }}>
+                  <th style={cell}>Click</th>
+                  <th style={cell}>Sequence</th>
+                  <th style={cell}>Optimistic</th>
+                  <th style={cell}>Response</th>
+                  <th style={cell}>Server value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {clicks.map((entry, i) => {
+                  const { response } = entry
+                  // Answered before a click that came earlier was
+                  const overtook =
+                    response &&
+                    clicks
+                      .slice(0, i)
+                      .some((earlier) => !earlier.response || earlier.response.arrival > response.arrival)
+
+                  return (
+                    <tr key={entry.id} style={{ borderBottom: '1px solid var(--border)' }}>
+                      <td style={cell}>#{i + 1}</td>
+                      <td style={{ ...cell, fontFamily: 'monospace' }}>{entry.sequence ?? 'none'}</td>
+                      <td style={cell}>{describeValue(entry.optimistic)}</td>
+                      <td style={cell}>
+                        {response ? `arrived ${ordinal(response.arrival)}` : 'waiting...'}
+                        {overtook && (
+                          <span className="badge" style={{ margin: '0 0 0 0.5rem', background: 'var(--warning)' }}>
+                            out of order
+                          </span>
+                        )}
+                      </td>
+                      <td style={cell}>
+                        {response?.error ? (
+                          <span style={{ color: 'var(--error)' }}>failed</span>
+                        ) : (
+                          describeValue(response?.completed)
+                        )}
+                        {response?.stale && <span style={{ color: '#666' }}> (dropped as stale)</span>}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+
+            <div style={{ marginTop: '0.5rem' }}>
+              {!committed ? (
+                <span style={{ color: '#666' }}>Deleted</span>
+              ) : !settled ? (
+                <span style={{ color: '#666' }}>Final: waiting for the server...</span>
+              ) : committed.completed === lastClick.optimistic ? (
+                <span style={{ color: 'var(--success)' }}>
+                  Final: {describeValue(committed.completed)}, matches your last click
+                </span>
+              ) : (
+                <span style={{ color: 'var(--error)' }}>
+                  Final: {describeValue(committed.completed)}, but your last click showed{' '}
+                  {describeValue(lastClick.optimistic)}
+                </span>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { instrumentAction } from '../lib/action-log'
+import { simulateLatency } from '../lib/server-latency'
+import {
+  createTodo,
+  getTodoData,
+  resetTodos,
+  setCompleted,
+  updateSettings,
+  updateTodos,
+  type CompletedWrite,
+  type ServerSettings,
+  type Todo,
+} from './todos'
+
+// `todo` is the saved todo for mutations that create or change one. Completion
+// changes echo the request's `sequence`, and `stale` is set when a newer change
+// had already been applied, so this one was dropped. A conflict means the todo
+// changed since the client last saw it; `todo` is what the server has now.
+export type MutationResult =
+  | { status: 'success'; todo?: Todo; sequence?: number; stale?: boolean }
+  | { status: 'conflict'; message: string; todo: Todo }
+  | { status: 'error'; message: string }
+
+// Waits for the configured latency (short during a self-check run), then fails
+// with the configured probability
+async function simulateServer(): Promise<string | null> {
+  const { settings } = await getTodoData()
+  const delay = settings.outOfOrder ? Math.random() * settings.latencyMs * 2 : settings.latencyMs
+  await simulateLatency(delay)
+  return Math.random() < settings.failureRate ? 'The server rejected the update (simulated failure)' : null
+}
+
+// Failures are returned rather than thrown, so the client gets the real message
+// in production too. On success, revalidatePath sends the saved todos back as the
+// page's new props, which become useOptimistic's base state.
+// With a `sequence`, a change that arrives after a newer one is dropped; with
+// `expected`, a change to a todo that was edited meanwhile is a conflict.
+export const setTodoCompleted = instrumentAction(
+  'setTodoCompleted',
+  async (id: number, completed: boolean, write: CompletedWrite = {}): Promise<MutationResult> => {
+    const { sequence, expected } = write ?? {}
+    if (
+      typeof id !== 'number' ||
+      typeof completed !== 'boolean' ||
+      (sequence !== undefined && typeof sequence !== 'number') ||
+      (expected !== undefined && typeof expected !== 'boolean')
+    ) {
+      return { status: 'error', message: 'Invalid update' }
+    }
+
+    const failure = await simulateServer()
+    if (failure) return { status: 'error', message: failure }
+
+    const { todo, outcome } = await setCompleted(id, completed, { sequence, expected })
+    if (!todo) return { status: 'error', message: 'Todo not found' }
+
+    revalidatePath('/use-optimistic')
+    if (outcome === 'conflict') {
+      return { status: 'conflict', message: 'It was changed on another device', todo }
+    }
+    return { status: 'success', todo, sequence, stale: outcome === 'stale' }
+  }
+)
+
+// Stands in for a second client: changes a todo right away, with no latency,
+// failures or offline switch. Lets the demo create conflicts with queued changes.
+export const toggleFromAnotherDevice = instrumentAction('toggleFromAnotherDevice', async (id: number) => {
+  const { todos } = await getTodoData()
+  const todo = todos.find((todo) => todo.id === id)
+  if (!todo) return
+
+  await setCompleted(id, !todo.completed)
+  revalidatePath('/use-optimistic')
+})
+
+// Returns the todo with its server ID; the client swaps it in for its temporary ID
+export const addTodo = instrumentAction('addTodo', async (text: string): Promise<MutationResult> => {
+  const trimmed = typeof text === 'string' ? text.trim() : ''
+  if (!trimmed || trimmed.length > 100) {
+    return { status: 'error', message: 'A todo needs 1 to 100 characters' }
+  }
+
+  const failure = await simulateServer()
+  if (failure) return { status: 'error', message: failure }
+
+  const todo = await createTodo(trimmed)
+  revalidatePath('/use-optimistic')
+  return { status: 'success', todo }
+})
+
+export const deleteTodo = instrumentAction('deleteTodo', async (id: number): Promise<MutationResult> => {
+  if (typeof id !== 'number') return { status: 'error', message: 'Invalid todo' }
+
+  const failure = await simulateServer()
+  if (failure) return { status: 'error', message: failure }
+
+  let found = false
+  await updateTodos((todos) => {
+    found = todos.some((todo) => todo.id === id)
+    return todos.filter((todo) => todo.id !== id)
+  })
+  if (!found) return { status: 'error', message: 'Todo not found' }
+
+  revalidatePath('/use-optimistic')
+  return { status: 'success' }
+})
+
+// `ids` is the new order. Todos it doesn't mention (e.g. added meanwhile in
+// another tab) keep their relative order at the end; unknown IDs are ignored.
+export const reorderTodos = instrumentAction('reorderTodos', async (ids: number[]): Promise<MutationResult> => {
+  if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'number')) {
+    return { status: 'error', message: 'Invalid order' }
+  }
+
+  const failure = await simulateServer()
+  if (failure) return { status: 'error', message: failure }
+
+  await updateTodos((todos) => {
+    const position = (todo: Todo) => {
+      const index = ids.indexOf(todo.id)
+      return index === -1 ? ids.length : index
+    }
+    return todos.toSorted((a, b) => position(a) - position(b))
+  })
+  revalidatePath('/use-optimistic')
+  return { status: 'success' }
+})
+
+export const updateServerSettings = instrumentAction('updateServerSettings', async (settings: ServerSettings) => {
+  await updateSettings({
+    latencyMs: Math.min(Math.max(Number(settings.latencyMs) || 0, 0), 10_000),
+    failureRate: Math.min(Math.max(Number(settings.failureRate) || 0, 0), 1),
+    outOfOrder: settings.outOfOrder === true,
+  })
+  revalidatePath('/use-optimistic')
+})
+
+export const resetTodosAction = instrumentAction('resetTodosAction', async () => {
+  await resetTodos()
+  revalidatePath('/use-optimistic')
+})
@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('use-optimistic')
+
+export default function UseOptimisticLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="use-optimistic">{children}</DemoShell>
+}
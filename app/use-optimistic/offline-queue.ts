@@ -0,0 +1,74 @@
+// Changes made while the demo is offline. They're kept in IndexedDB, so a reload
+// doesn't lose them, and replayed in order once the demo is back online. The
+// offline switch is simulated and remembered in localStorage.
+
+const DB_NAME = 'use-optimistic'
+const STORE_NAME = 'offline-mutations'
+const OFFLINE_KEY = 'use-optimistic-offline'
+
+// Rows added on this client get a temporary ID until the server assigns a real one
+export type TempId = `temp-${number}`
+
+export type QueuedMutation = {
+  // Increases with every change, so it orders the queue. Toggles are replayed
+  // with it as their sequence number.
+  id: number
+  // The todo's text when the change was made, for messages
+  text: string
+} & (
+  // `expected` is the value the change was based on
+  | { type: 'toggle'; todoId: number; completed: boolean; expected: boolean }
+  | { type: 'add'; tempId: TempId }
+  | { type: 'delete'; todoId: number }
+  | { type: 'reorder'; todoId: number; ids: number[] }
+)
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase() {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  return database
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// In queue order: IndexedDB returns records sorted by key
+export function loadQueue(): Promise<QueuedMutation[]> {
+  return run('readonly', (store) => store.getAll())
+}
+
+export async function saveQueued(mutation: QueuedMutation) {
+  await run('readwrite', (store) => store.put(mutation))
+}
+
+export async function removeQueued(id: number) {
+  await run('readwrite', (store) => store.delete(id))
+}
+
+export function readOfflineSwitch() {
+  try {
+    return window.localStorage.getItem(OFFLINE_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+export function writeOfflineSwitch(offline: boolean) {
+  try {
+    window.localStorage.setItem(OFFLINE_KEY, String(offline))
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed frames); the switch still works for this page
+  }
+}
@@ -1,67 +1,20 @@
-'use client'
-
-import { useOptimistic, useState, useTransition } from 'react'
-import Link from 'next/link'
-
-type Todo = {
-  id: number
-  text: string
-  completed: boolean
-}
-
-// Simulate server action
-async function updateTodoOnServer(id: number): Promise<void> {
-  await new Promise((resolve) => setTimeout(resolve, 2000))
-}
-
-export default function UseOptimisticDemo() {
-  const [todos, setTodos] = useState<Todo[]>([
-    { id: 1, text: 'Learn React 19', completed: false },
-    { id: 2, text: 'Try useOptimistic', completed: false },
-    { id: 3, text: 'Build awesome apps', completed: false },
-  ])
-
-  const [optimisticTodos, setOptimisticTodos] = useOptimistic(
-    todos,
-    (state, optimisticValue: { id: number; completed: boolean }) => {
-      return state.map((todo) =>
-        todo.id === optimisticValue.id
-          ? { ...todo, completed: optimisticValue.completed }
-          : todo
-      )
-    }
-  )
-
-  const [isPending, startTransition] = useTransition()
-
-  const toggleTodo = async (id: number) => {
-    const todo = todos.find((t) => t.id === id)
-    if (!todo) return
-
-    // Optimistically update UI immediately
-    setOptimisticTodos({ id, completed: !todo.completed })
-
-    // Then update server (simulated)
-    startTransition(async () => {
-      try {
-        await updateTodoOnServer(id)
-        // Update actual state after server responds
-        setTodos((prev) =>
-          prev.map((t) => (t.id === id ? { ...t, completed: !t.completed } : t))
-        )
-      } catch (error) {
-        // If it fails, the optimistic update will revert automatically
-        console.error('Failed to update todo')
-      }
-    })
-  }
+import { connection } from 'next/server'
+import { Playground } from '../components/Playground'
+import { SourceCode } from '../components/SourceCode'
+import { OptimisticTodos } from './OptimisticTodos'
+import { optimisticTodosSnippet } from './snippets'
+import { getTodoData } from './todos'
+import actionSnippets from './actions.ts?names=setTodoCompleted,addTodo&source'
+import todoSnippets from './OptimisticTodos.tsx?names=OptimisticTodos&source'
+import storeSnippets from './todos.ts?names=setCompleted&source'
+
+export default async function UseOptimisticDemo() {
+  // The todos live on the server; read them for every request
+  await connection()
+  const { todos, settings } = await getTodoData()
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>useOptimistic Hook Demo</h1>
 
       <div className="demo-section">
@@ -84,55 +37,59 @@ export default function UseOptimisticDemo() {
       <div className="demo-section">
         <h2>Interactive Demo</h2>
         <p>
-          Click on any todo item to toggle its completion status. Notice how it updates instantly, 
-          even though the "server update" takes 2 seconds!
+          Click on any todo item to toggle its completion status. The checkbox updates instantly while a real server
+          action saves the change; the todos are stored on the server, so they survive a reload.
+        </p>
+        <p style={{ marginTop: '0.5rem' }}>
+          Make the server fail to see the other half of <code>useOptimistic</code>: the optimistic value only lasts
+          until the transition ends. If nothing was saved, the row goes back to the saved value and the action&apos;s
+          error is shown.
+        </p>
+        <p style={{ marginTop: '0.5rem' }}>
+          Adding, deleting and moving work the same way (drag a row, or use the arrows). A new todo shows right away
+          with a temporary <code>temp-</code> ID; when the server answers, the saved todo with its real ID takes its
+          place under the same React key, so the row doesn&apos;t remount. Rows marked <strong>pending</strong> are
+          waiting for the server.
         </p>
 
-        {isPending && (
-          <div style={{ padding: '0.5rem', background: 'rgba(0, 112, 243, 0.1)', borderRadius: '8px', marginBottom: '1rem' }}>
-            ⏳ Syncing with server...
-          </div>
-        )}
-
-        <div style={{ maxWidth: '500px' }}>
-          {optimisticTodos.map((todo) => (
-            <div
-              key={todo.id}
-              onClick={() => toggleTodo(todo.id)}
-              style={{
-                padding: '1rem',
-                margin: '0.5rem 0',
-                background: 'var(--card-bg)',
-                border: '2px solid var(--border)',
-                borderRadius: '8px',
-                cursor: 'pointer',
-                display: 'flex',
-                alignItems: 'center',
-                gap: '1rem',
-                transition: 'all 0.2s',
-                opacity: todo.completed ? 0.6 : 1,
-              }}
-            >
-              <input
-                type="checkbox"
-                checked={todo.completed}
-                onChange={() => {}}
-                style={{ width: '20px', height: '20px', cursor: 'pointer' }}
-              />
-              <span
-                style={{
-                  textDecoration: todo.completed ? 'line-through' : 'none',
-                  flex: 1,
-                }}
-              >
-                {todo.text}
-              </span>
-              {todo.completed && <span>✓</span>}
-            </div>
-          ))}
+        <div style={{ marginTop: '1rem' }}>
+          <OptimisticTodos todos={todos} settings={settings} />
         </div>
       </div>
 
+      <div className="demo-section">
+        <h2>Overlapping Updates</h2>
+        <p>
+          Click a todo several times quickly and each click starts its own transition and its own request. Turn on{' '}
+          <strong>out-of-order responses</strong> and the server answers them in random order, so the last request to
+          arrive is not always the last one sent. The response timeline under the list shows each click&apos;s
+          optimistic value, the value the server saved, and what was committed in the end.
+        </p>
+        <p style={{ marginTop: '0.5rem' }}>
+          With <strong>stale closure, last response wins</strong> both halves of the problem show up. The handler reads{' '}
+          <code>todos</code>, the committed props, which don&apos;t include the clicks still in flight: two quick clicks
+          both ask for &quot;done&quot;. And whichever request arrives last overwrites the others. The fix reads the
+          next value from <code>optimisticTodos</code>, what the user actually sees, and sends a sequence number with
+          every change. The server drops a change that arrives after a newer one was saved, so the committed value
+          always follows the last click.
+        </p>
+      </div>
+
+      <div className="demo-section">
+        <h2>Offline Changes</h2>
+        <p>
+          Tick <strong>Offline</strong> and keep working: instead of going to the server, every change is stored in an
+          IndexedDB queue and its row stays pending, even across a reload. Untick it and the queue is replayed in the
+          order the changes were made; each change leaves the queue in the same transition that brings its saved
+          result.
+        </p>
+        <p style={{ marginTop: '0.5rem' }}>
+          Queued toggles carry the value they were based on. If the todo changed in the meantime (use{' '}
+          <strong>Another device toggles...</strong> while offline), the server refuses the change and the conflict is
+          shown: keep the server&apos;s value, or apply yours on top of it.
+        </p>
+      </div>
+
       <div className="demo-section">
         <h2>Code Example</h2>
         <pre>
@@ -183,6 +140,23 @@ export function TodoList({ todos, updateTodo }) {
         </pre>
       </div>
 
+      <div className="demo-section">
+        <h2>Source of This Demo</h2>
+        <SourceCode snippet={todoSnippets.OptimisticTodos} />
+        <SourceCode snippet={actionSnippets.setTodoCompleted} />
+        <SourceCode snippet={actionSnippets.addTodo} />
+        <SourceCode snippet={storeSnippets.setCompleted} />
+      </div>
+
+      <div className="demo-section">
+        <h2>Try It Live</h2>
+        <p>
+          Edit a runnable version of the code and see the result immediately. The snippet is compiled in your browser
+          and rendered in a sandboxed frame, so nothing leaves this page.
+        </p>
+        <Playground title="useOptimistic playground" initialCode={optimisticTodosSnippet} />
+      </div>
+
       <div className="demo-section">
         <h2>Benefits</h2>
         <ul style={{ marginLeft: '2rem', lineHeight: '2' }}>
@@ -192,6 +166,6 @@ export function TodoList({ todos, updateTodo }) {
           <li><strong>Works with Transitions:</strong> Integrates seamlessly with concurrent features</li>
         </ul>
       </div>
-    </div>
+    </>
   )
 }
@@ -0,0 +1,108 @@
+import type { SelfCheckPage, SelfCheckScenario } from '../lib/self-check'
+
+async function setServerFailures(page: SelfCheckPage, failureRate: number) {
+  const select = await page.waitForElement<HTMLSelectElement>('#server-failures')
+  if (select.value === String(failureRate)) return
+  Object.getOwnPropertyDescriptor(Object.getPrototypeOf(select), 'value')?.set?.call(select, String(failureRate))
+  select.dispatchEvent(new Event('change', { bubbles: true }))
+  // The select is controlled by the saved settings, so it shows the new value once the server has it
+  await page.waitFor('the server setting to be saved', () => select.value === String(failureRate))
+}
+
+function findRow(page: SelfCheckPage, text: string) {
+  return Array.from(page.document.querySelectorAll<HTMLElement>('[data-todo-id]')).find((row) =>
+    row.textContent?.includes(text)
+  )
+}
+
+function rowOrder(page: SelfCheckPage) {
+  return Array.from(page.document.querySelectorAll<HTMLElement>('[data-todo-id]'), (row) => row.dataset.todoId)
+}
+
+// Toggling a todo checks it immediately and keeps it checked once the server saves it;
+// when the server rejects the update, the row reverts and the error is shown.
+// Overlapping toggles end on the last click's value. Added, moved and deleted rows
+// change right away and stay that way once saved. Offline changes are queued and
+// replayed on reconnect.
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await setServerFailures(page, 0)
+  await page.click('Reset todos')
+  await page.waitForText('Syncing with server...')
+  await page.waitForNoText('Syncing with server...')
+
+  const label = await page.waitForText('Learn React 19')
+  const checkbox = () => label.parentElement?.querySelector('input')
+
+  await page.click('Learn React 19')
+  await page.waitFor('the optimistic checked state', () => checkbox()?.checked)
+  await page.waitForText('Syncing with server...')
+  await page.waitForNoText('Syncing with server...')
+  page.expect(checkbox()?.checked, 'the committed state to stay checked')
+
+  await setServerFailures(page, 1)
+  const failing = await page.waitForText('Try useOptimistic')
+  const failingCheckbox = () => failing.parentElement?.querySelector('input')
+  await page.click('Try useOptimistic')
+  await page.waitFor('the optimistic checked state', () => failingCheckbox()?.checked)
+  await page.waitForText('Couldn\'t update "Try useOptimistic"')
+  page.expect(!failingCheckbox()?.checked, 'the rejected update to be reverted')
+
+  await setServerFailures(page, 0)
+
+  // Quick clicks overlap; with sequence numbers the saved value follows the last click
+  await page.click('Build awesome apps')
+  await page.click('Build awesome apps')
+  await page.click('Build awesome apps')
+  await page.waitFor('the timeline to settle on the last click', () =>
+    page.document.querySelector('[data-timeline-todo="3"]')?.textContent?.includes('matches your last click')
+  )
+
+  // A new todo shows up with a temporary ID, then takes the ID the server assigned
+  await page.fill('#new-todo', 'Ship the demo')
+  await page.click('Add')
+  await page.waitFor('the optimistic row with a temporary ID', () =>
+    findRow(page, 'Ship the demo')?.dataset.todoId?.startsWith('temp-')
+  )
+  const added = await page.waitFor('the server ID', () => {
+    const row = findRow(page, 'Ship the demo')
+    return row && /^\d+$/.test(row.dataset.todoId ?? '') && !row.textContent?.includes('pending') && row
+  })
+
+  const before = rowOrder(page)
+  added.querySelector<HTMLButtonElement>('[aria-label^="Move"][aria-label$="up"]')?.click()
+  await page.waitFor('the moved row to be saved', () => {
+    const row = findRow(page, 'Ship the demo')
+    return rowOrder(page).indexOf(row?.dataset.todoId) === before.length - 2 && !row?.textContent?.includes('pending')
+  })
+
+  findRow(page, 'Ship the demo')?.querySelector<HTMLButtonElement>('[aria-label^="Delete"]')?.click()
+  await page.waitFor('the deleted row to disappear', () => !findRow(page, 'Ship the demo'))
+  await page.waitForNoText('Syncing with server...')
+  page.expect(!findRow(page, 'Ship the demo'), 'the delete to be saved')
+
+  // Offline, changes are queued and stay pending; reconnecting replays them in order.
+  // The queued toggle of a todo that another device changed meanwhile is a conflict.
+  await page.click('Reset todos')
+  await page.waitForNoText('Syncing with server...')
+  const offline = await page.waitForElement<HTMLInputElement>('#offline')
+  offline.click()
+  await page.click('Learn React 19')
+  await page.waitForText('Offline: 1 change queued')
+  page.expect(findRow(page, 'Learn React 19')?.textContent?.includes('pending'), 'the queued toggle to be pending')
+  await page.click('Build awesome apps')
+  await page.waitForText('Offline: 2 changes queued')
+  await page.click('Another device toggles "Learn React 19"')
+  await page.waitForNoText('Syncing with server...')
+
+  offline.click()
+  await page.waitForText('Couldn\'t mark "Learn React 19" done')
+  await page.waitFor('the queue to be replayed', () => {
+    const row = findRow(page, 'Build awesome apps')
+    return row?.querySelector('input')?.checked && !row.textContent?.includes('pending')
+  })
+  await page.waitForNoText('Replaying')
+  await page.click("Keep the server's")
+  await page.waitForNoText('Conflict.')
+
+  await page.click('Reset todos')
+}
@@ -0,0 +1,60 @@
+// Runnable starting point for the live playground on this page
+export const optimisticTodosSnippet = `import { useOptimistic, useState, useTransition } from 'react'
+
+type Todo = { id: number; text: string; completed: boolean }
+
+// Pretend server call: try a longer delay or a higher failure rate
+function saveTodo(todo: Todo): Promise<Todo> {
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      if (Math.random() < 0.25) reject(new Error('Server rejected the update'))
+      else resolve(todo)
+    }, 1500)
+  })
+}
+
+export default function App() {
+  const [todos, setTodos] = useState<Todo[]>([
+    { id: 1, text: 'Learn React 19', completed: false },
+    { id: 2, text: 'Try useOptimistic', completed: false },
+    { id: 3, text: 'Build awesome apps', completed: false },
+  ])
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  // Edit the reducer: how is an optimistic update applied to the list?
+  const [optimisticTodos, applyOptimistic] = useOptimistic(
+    todos,
+    (state, updated: Todo) => state.map((t) => (t.id === updated.id ? updated : t))
+  )
+
+  function toggle(todo: Todo) {
+    setError(null)
+    startTransition(async () => {
+      const updated = { ...todo, completed: !todo.completed }
+      applyOptimistic(updated)
+      try {
+        const saved = await saveTodo(updated)
+        startTransition(() => {
+          setTodos((prev) => prev.map((t) => (t.id === saved.id ? saved : t)))
+        })
+      } catch (e) {
+        // No cleanup needed: the optimistic value is dropped when the transition ends
+        setError((e as Error).message)
+      }
+    })
+  }
+
+  return (
+    <div>
+      {isPending && <p>Syncing with server...</p>}
+      {error && <p className="error">{error}</p>}
+      {optimisticTodos.map((todo) => (
+        <label key={todo.id} style={{ display: 'block', padding: '0.5rem 0' }}>
+          <input type="checkbox" checked={todo.completed} onChange={() => toggle(todo)} /> {todo.text}
+        </label>
+      ))}
+    </div>
+  )
+}
+`
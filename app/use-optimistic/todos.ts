@@ -0,0 +1,103 @@
+import { createFileStore } from '../lib/file-store'
+
+export type Todo = {
+  id: number
+  text: string
+  completed: boolean
+}
+
+// How the simulated server behaves; changed from the demo page
+export type ServerSettings = {
+  latencyMs: number
+  // 0..1 probability that a mutation is rejected
+  failureRate: number
+  // Each response waits a random time, so a later request can be answered first
+  outOfOrder: boolean
+}
+
+type TodoData = {
+  todos: Todo[]
+  // IDs are never reused, so a deleted todo's ID can't be mistaken for a new one
+  nextId?: number
+  // Per todo, the sequence number of the last completion change that was applied
+  sequences?: Record<number, number>
+  settings: ServerSettings
+}
+
+const initialData: TodoData = {
+  todos: [
+    { id: 1, text: 'Learn React 19', completed: false },
+    { id: 2, text: 'Try useOptimistic', completed: false },
+    { id: 3, text: 'Build awesome apps', completed: false },
+  ],
+  settings: { latencyMs: 1500, failureRate: 0, outOfOrder: false },
+}
+
+const store = createFileStore<TodoData>('optimistic-todos', initialData)
+
+export function getTodoData(): Promise<TodoData> {
+  return store.read()
+}
+
+export async function updateTodos(updater: (todos: Todo[]) => Todo[]): Promise<Todo[]> {
+  const data = await store.update((data) => ({ ...data, todos: updater(data.todos) }))
+  return data.todos
+}
+
+export async function createTodo(text: string): Promise<Todo> {
+  let todo: Todo | undefined
+  await store.update((data) => {
+    const id = data.nextId ?? Math.max(0, ...data.todos.map((todo) => todo.id)) + 1
+    todo = { id, text, completed: false }
+    return { ...data, todos: [...data.todos, todo], nextId: id + 1 }
+  })
+  return todo!
+}
+
+export type CompletedWrite = {
+  // Drop the change if one with a higher sequence number was already applied
+  sequence?: number
+  // Only apply the change if the saved value is still this one
+  expected?: boolean
+}
+
+// Requests that arrive late must not overwrite newer ones, so a change with a
+// `sequence` is dropped as stale once a newer one was applied. Without one the
+// change always applies, so the last request to arrive wins. A change made
+// offline carries the value it was based on; if that's no longer the saved
+// value, someone else changed the todo meanwhile and it's a conflict.
+export async function setCompleted(
+  id: number,
+  completed: boolean,
+  { sequence, expected }: CompletedWrite = {}
+): Promise<{ todo: Todo | undefined; outcome: 'applied' | 'stale' | 'conflict' }> {
+  let outcome: 'applied' | 'stale' | 'conflict' = 'applied'
+  const data = await store.update((data) => {
+    const sequences = data.sequences ?? {}
+    const current = data.todos.find((todo) => todo.id === id)
+    if (expected !== undefined && current && current.completed !== expected) {
+      outcome = 'conflict'
+      return data
+    }
+    if (sequence !== undefined && sequence <= (sequences[id] ?? 0)) {
+      outcome = 'stale'
+      return data
+    }
+
+    return {
+      ...data,
+      todos: data.todos.map((todo) => (todo.id === id ? { ...todo, completed } : todo)),
+      sequences: sequence === undefined ? sequences : { ...sequences, [id]: sequence },
+    }
+  })
+  return { todo: data.todos.find((todo) => todo.id === id), outcome }
+}
+
+export async function updateSettings(settings: ServerSettings) {
+  await store.update((data) => ({ ...data, settings }))
+}
+
+// Back to the seed todos; keeps the server settings
+export async function resetTodos() {
+  await store.update((data) => ({ ...data, todos: initialData.todos, sequences: {} }))
+}
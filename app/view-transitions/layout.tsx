@@ -0,0 +1,8 @@
+import { demoMetadata } from '../lib/demos'
+import { DemoShell } from '../components/DemoShell'
+
+export const metadata = demoMetadata('view-transitions')
+
+export default function ViewTransitionsLayout({ children }: { children: React.ReactNode }) {
+  return <DemoShell id="view-transitions">{children}</DemoShell>
+}
@@ -1,7 +1,6 @@
 'use client'
 
 import { useState, useTransition, startTransition } from 'react'
-import Link from 'next/link'
 
 // Utility to check if View Transitions API is supported
 const supportsViewTransitions = () => {
@@ -155,11 +154,7 @@ export default function ViewTransitionsDemo() {
   })
 
   return (
-    <div className="container">
-      <Link href="/" className="back-link">
-        Back to Home
-      </Link>
-
+    <>
       <h1>View Transitions API Demo</h1>
 
       <div className="demo-section">
@@ -424,6 +419,6 @@ function Component() {
       {selectedItem && (
         <DetailView item={selectedItem} onClose={handleClose} />
       )}
-    </div>
+    </>
   )
 }
@@ -0,0 +1,11 @@
+import type { SelfCheckScenario } from '../lib/self-check'
+
+// Layout and sort toggles update the list (with or without View Transitions support)
+export const selfCheck: SelfCheckScenario = async (page) => {
+  await page.click('Switch to List View')
+  await page.waitForText('Switch to Grid View')
+  await page.click('Sort Descending')
+  await page.waitForText('Sort Ascending')
+  await page.click('Switch to Grid View')
+  await page.waitForText('Switch to List View')
+}
@@ -0,0 +1,13 @@
+import type { Instrumentation } from 'next'
+
+// Called by Next.js for every error thrown while handling a request: rendering,
+// route handlers and server actions. Production builds hide a thrown error's
+// message from the browser and send only `error.digest`; logging the digest here
+// with the original error lets you find it from what the user sees.
+export const onRequestError: Instrumentation.onRequestError = (error, request, context) => {
+  const { digest } = error as Error & { digest?: string }
+  console.error(
+    `[${context.routeType} error] digest=${digest ?? 'none'} ${request.method} ${request.path} (${context.routePath})`,
+    error
+  )
+}
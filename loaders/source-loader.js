@@ -0,0 +1,95 @@
+const path = require('path')
+const ts = require('typescript')
+
+// Webpack loader for `import snippets from './file.tsx?names=Counter,TodoList&source'`.
+// Parses the file at build time and exports the named top-level declarations as
+// { [name]: { name, file, startLine, code } } so demos can show the code that is
+// actually running instead of a hand-copied string. Only the listed ones are
+// extracted: the snippets end up in the importing page's bundle.
+
+function declaredNames(statement) {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations
+      .filter((d) => ts.isIdentifier(d.name))
+      .map((d) => d.name.text)
+  }
+
+  if (
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isEnumDeclaration(statement)
+  ) {
+    if (statement.name) return [statement.name.text]
+    // `export default function () {}`
+    return ['default']
+  }
+
+  return []
+}
+
+// Start of the comment block directly above a statement (no blank line in between)
+function commentStart(source, statement) {
+  const ranges = ts.getLeadingCommentRanges(source, statement.pos) || []
+  let start = statement.getStart()
+
+  for (let i = ranges.length - 1; i >= 0; i--) {
+    const gap = source.slice(ranges[i].end, start)
+    if (gap.trim() !== '' || gap.split('\n').length > 2) break
+    start = ranges[i].pos
+  }
+
+  return start
+}
+
+module.exports = function sourceLoader(source) {
+  const file = path.relative(this.rootContext, this.resourcePath).split(path.sep).join('/')
+  const sourceFile = ts.createSourceFile(
+    this.resourcePath,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX
+  )
+
+  const names = (new URLSearchParams(this.resourceQuery.slice(1)).get('names') ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+  if (names.length === 0) {
+    throw new Error(`${file}: list the declarations to extract, e.g. '${path.basename(file)}?names=MyComponent&source'`)
+  }
+
+  const snippets = {}
+  for (const statement of sourceFile.statements) {
+    for (const name of declaredNames(statement)) {
+      if (!names.includes(name)) continue
+      const start = commentStart(source, statement)
+      snippets[name] = {
+        name,
+        file,
+        startLine: sourceFile.getLineAndCharacterOfPosition(start).line + 1,
+        code: source.slice(start, statement.end),
+      }
+    }
+  }
+
+  // A renamed or removed declaration fails the build instead of rendering nothing
+  const missing = names.filter((name) => !(name in snippets))
+  if (missing.length > 0) {
+    throw new Error(`${file} has no top-level declaration named ${missing.join(', ')}`)
+  }
+
+  // Reading a snippet that wasn't listed in the query throws instead of returning undefined
+  return `const snippets = ${JSON.stringify(snippets)}
+export default new Proxy(snippets, {
+  get(target, name) {
+    if (typeof name === 'string' && !(name in target)) {
+      throw new Error(${JSON.stringify(file)} + ': add "' + name + '" to the names in its ?source import')
+    }
+    return target[name]
+  },
+})
+`
+}
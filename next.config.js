@@ -1,8 +1,23 @@
+const path = require('path')
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
     // Enable React Compiler
     reactCompiler: true,
+    serverActions: {
+      // Room for the contact form's attachments (3 files of up to 1 MB each); the default is 1 MB
+      bodySizeLimit: '4mb',
+    },
+  },
+  webpack(config) {
+    // `import snippets from './page.tsx?names=Counter&source'` extracts real source at build time
+    config.module.rules.push({
+      resourceQuery: /(^\?|&)source$/,
+      type: 'javascript/auto',
+      use: [path.resolve(__dirname, 'loaders/source-loader.js')],
+    })
+    return config
   },
 }
 
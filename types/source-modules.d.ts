@@ -0,0 +1,7 @@
+// Modules produced by loaders/source-loader.js: `./file.tsx?names=A,B&source`.
+// The names can't be typed from the query; the loader fails the build when one
+// is missing from the file, and reading one that wasn't listed throws.
+declare module '*&source' {
+  const snippets: Record<string, import('../app/lib/source').SourceSnippet>
+  export default snippets
+}